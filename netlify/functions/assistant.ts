@@ -0,0 +1,248 @@
+import type { Config, Context } from '@netlify/functions';
+import { getOpenAI, ASSISTANT_ID } from '../lib/openai';
+import { errorResponse, jsonResponse, readJsonBody, sseResponse, SendEvent } from '../lib/http';
+import { clientIp, RateLimiter, rateLimitedResponse } from '../lib/rateLimit';
+import type { AssistantStream } from 'openai/lib/AssistantStream';
+import type { AssistantTool } from 'openai/resources/beta/assistants';
+
+interface FunctionToolInput {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+const MAX_CLIENT_TOOLS = 16;
+const MAX_CONTENT_CHARS = 8000;
+const MAX_INSTRUCTIONS_CHARS = 16000;
+const MAX_RUN_BODY_BYTES = 128 * 1024;
+const MAX_TOOL_OUTPUTS = 16;
+// Matches the cap the client puts on each tool result
+const MAX_TOOL_OUTPUT_CHARS = 20000;
+const MAX_TOOL_OUTPUTS_BODY_BYTES = 512 * 1024;
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const RATE_LIMIT = Number(process.env.ASSISTANT_RATE_LIMIT) || 30;
+const RATE_WINDOW_SECONDS = Number(process.env.ASSISTANT_RATE_WINDOW_SECONDS) || 60;
+
+// Each question starts a run; tool outputs only continue one, so they aren't counted
+const rateLimiter = new RateLimiter(RATE_LIMIT, RATE_WINDOW_SECONDS * 1000);
+
+const invalid = (message: string) => errorResponse({ status: 400, code: 'invalid_request', message });
+const tooLarge = (message: string) => errorResponse({ status: 413, code: 'payload_too_large', message });
+const fieldOf = (body: unknown, name: string): unknown =>
+  typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[name] : undefined;
+
+let assistantTools: AssistantTool[] | null = null;
+
+// Tools passed to a run replace the assistant's own, so keep those alongside the client's
+const getRunTools = async (clientTools: FunctionToolInput[]): Promise<AssistantTool[]> => {
+  if (!assistantTools) {
+    assistantTools = (await getOpenAI().beta.assistants.retrieve(ASSISTANT_ID)).tools;
+  }
+  const names = new Set(clientTools.map(tool => tool.name));
+  return [
+    ...assistantTools.filter(tool => tool.type !== 'function' || !names.has(tool.function.name)),
+    ...clientTools.map(({ name, description, parameters }) => ({
+      type: 'function' as const,
+      function: { name, description, parameters }
+    }))
+  ];
+};
+
+const isFunctionToolInput = (value: unknown): value is FunctionToolInput => {
+  const tool = value as FunctionToolInput;
+  return typeof tool === 'object' && tool !== null &&
+    typeof tool.name === 'string' && TOOL_NAME_PATTERN.test(tool.name) &&
+    (tool.description === undefined || typeof tool.description === 'string') &&
+    (tool.parameters === undefined || (typeof tool.parameters === 'object' && tool.parameters !== null));
+};
+
+const cancelRun = async (threadId: string, runId: string) => {
+  try {
+    await getOpenAI().beta.threads.runs.cancel(threadId, runId);
+  } catch (error) {
+    // The run may already have finished, which is fine
+    console.warn('Could not cancel run:', error);
+  }
+};
+
+// The client retries a /runs request that failed before streaming, which may be after
+// the question was posted; skip posting it again when the thread already ends with it
+const postUserMessage = async (threadId: string, content: string, signal: AbortSignal) => {
+  const openai = getOpenAI();
+  const { data: [last] } = await openai.beta.threads.messages.list(threadId, { limit: 1, order: 'desc' }, { signal });
+  const lastText = last?.role === 'user'
+    ? last.content.map(part => (part.type === 'text' ? part.text.value : '')).join('')
+    : null;
+  if (lastText !== content) {
+    await openai.beta.threads.messages.create(threadId, { role: 'user', content }, { signal });
+  }
+};
+
+const forwardRunEvents = async (
+  stream: AssistantStream,
+  threadId: string,
+  signal: AbortSignal,
+  send: SendEvent
+) => {
+  let runId: string | null = null;
+
+  try {
+    for await (const event of stream) {
+      switch (event.event) {
+        case 'thread.run.created':
+          runId = event.data.id;
+          send('run', { id: runId });
+          break;
+        case 'thread.message.delta':
+          event.data.delta.content?.forEach(part => {
+            if (part.type === 'text' && part.text?.value) {
+              send('delta', { text: part.text.value });
+            }
+          });
+          break;
+        case 'thread.run.requires_action': {
+          // The run waits for outputs, which the client submits on a new request
+          const calls = event.data.required_action?.submit_tool_outputs.tool_calls || [];
+          send('tool_calls', {
+            run_id: event.data.id,
+            calls: calls.map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }))
+          });
+          return;
+        }
+        case 'thread.run.failed':
+          throw new Error(event.data.last_error?.message || 'Run failed');
+        case 'thread.run.cancelled':
+          throw new Error('Run was cancelled');
+        case 'thread.run.expired':
+          throw new Error('Run expired');
+      }
+    }
+  } catch (error) {
+    // A dropped connection must not leave the run generating on OpenAI's side
+    if (signal.aborted && runId) {
+      await cancelRun(threadId, runId);
+    }
+    throw error;
+  }
+};
+
+export default async (req: Request, context: Context) => {
+  if (!ASSISTANT_ID) {
+    return jsonResponse(500, { error: 'Assistant is not configured' });
+  }
+
+  const { pathname } = new URL(req.url);
+  const { threadId, runId } = context.params;
+
+  try {
+    if (req.method === 'GET' && pathname === '/api/assistant') {
+      const assistant = await getOpenAI().beta.assistants.retrieve(ASSISTANT_ID);
+      return jsonResponse(200, { id: assistant.id, name: assistant.name });
+    }
+
+    if (req.method === 'POST' && pathname === '/api/assistant/threads') {
+      const thread = await getOpenAI().beta.threads.create();
+      return jsonResponse(200, { id: thread.id });
+    }
+  } catch (error) {
+    console.error('Assistant request failed:', error);
+    return jsonResponse(502, { error: 'Assistant request failed' });
+  }
+
+  if (req.method === 'POST' && threadId && pathname.endsWith('/runs')) {
+    const read = await readJsonBody(req, MAX_RUN_BODY_BYTES);
+    if ('error' in read) {
+      return errorResponse(read.error);
+    }
+    const content = fieldOf(read.body, 'content');
+    const tools = fieldOf(read.body, 'tools') ?? [];
+    const instructions = fieldOf(read.body, 'instructions');
+    if (typeof content !== 'string' || !content.trim()) {
+      return invalid('`content` must be a non-empty string');
+    }
+    if (content.length > MAX_CONTENT_CHARS) {
+      return tooLarge(`\`content\` exceeds ${MAX_CONTENT_CHARS} characters`);
+    }
+    if (!Array.isArray(tools) || !tools.every(isFunctionToolInput)) {
+      return invalid('`tools` must be a list of named function definitions');
+    }
+    if (tools.length > MAX_CLIENT_TOOLS) {
+      return tooLarge(`At most ${MAX_CLIENT_TOOLS} tools are accepted`);
+    }
+    if (instructions !== undefined && typeof instructions !== 'string') {
+      return invalid('`instructions` must be a string');
+    }
+    if (typeof instructions === 'string' && instructions.length > MAX_INSTRUCTIONS_CHARS) {
+      return tooLarge(`\`instructions\` exceeds ${MAX_INSTRUCTIONS_CHARS} characters`);
+    }
+
+    // Counted after validation, as for /api/chat
+    const limit = await rateLimiter.check(clientIp(req, context.ip));
+    if (!limit.allowed) {
+      return rateLimitedResponse(limit.retryAfter);
+    }
+
+    const message = content;
+    const clientTools = tools;
+    const additionalInstructions = instructions;
+    return sseResponse(async (send) => {
+      await postUserMessage(threadId, message, req.signal);
+      const stream = getOpenAI().beta.threads.runs.stream(
+        threadId,
+        {
+          assistant_id: ASSISTANT_ID,
+          tools: await getRunTools(clientTools),
+          additional_instructions: additionalInstructions
+        },
+        { signal: req.signal }
+      );
+      await forwardRunEvents(stream, threadId, req.signal, send);
+    });
+  }
+
+  if (req.method === 'POST' && threadId && runId && pathname.endsWith('/tool-outputs')) {
+    const read = await readJsonBody(req, MAX_TOOL_OUTPUTS_BODY_BYTES);
+    if ('error' in read) {
+      return errorResponse(read.error);
+    }
+    const toolOutputs = fieldOf(read.body, 'tool_outputs');
+    const outputs: Array<{ tool_call_id: string; output: string }> = Array.isArray(toolOutputs) ? toolOutputs : [];
+    if (outputs.length === 0 || !outputs.every(output =>
+      typeof output?.tool_call_id === 'string' && typeof output?.output === 'string'
+    )) {
+      return invalid('`tool_outputs` must be a list of { tool_call_id, output } strings');
+    }
+    if (outputs.length > MAX_TOOL_OUTPUTS || outputs.some(output => output.output.length > MAX_TOOL_OUTPUT_CHARS)) {
+      return tooLarge(`At most ${MAX_TOOL_OUTPUTS} tool outputs of ${MAX_TOOL_OUTPUT_CHARS} characters each are accepted`);
+    }
+
+    return sseResponse(async (send) => {
+      send('run', { id: runId });
+      const stream = getOpenAI().beta.threads.runs.submitToolOutputsStream(
+        threadId,
+        runId,
+        { tool_outputs: outputs },
+        { signal: req.signal }
+      );
+      await forwardRunEvents(stream, threadId, req.signal, send);
+    });
+  }
+
+  if (req.method === 'POST' && threadId && runId && pathname.endsWith('/cancel')) {
+    await cancelRun(threadId, runId);
+    return jsonResponse(200, { id: runId, cancelled: true });
+  }
+
+  return jsonResponse(404, { error: 'Not Found' });
+};
+
+export const config: Config = {
+  path: [
+    '/api/assistant',
+    '/api/assistant/threads',
+    '/api/assistant/threads/:threadId/runs',
+    '/api/assistant/threads/:threadId/runs/:runId/cancel',
+    '/api/assistant/threads/:threadId/runs/:runId/tool-outputs'
+  ]
+};
@@ -1,33 +1,21 @@
-import { Handler } from '@netlify/functions';
-import OpenAI from 'openai';
+import type { Config, Context } from '@netlify/functions';
+import { getOpenAI, CHAT_MODEL } from '../lib/openai';
+import { openAIChatClient, StubChatClient } from '../lib/chatClient';
+import { createChatHandler } from '../lib/chatHandler';
+import { RateLimiter } from '../lib/rateLimit';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+const RATE_LIMIT = Number(process.env.CHAT_RATE_LIMIT) || 30;
+const RATE_WINDOW_SECONDS = Number(process.env.CHAT_RATE_WINDOW_SECONDS) || 60;
 
-export const handler: Handler = async (event) => {
-  if (event.httpMethod !== 'POST') {
-    return { statusCode: 405, body: 'Method Not Allowed' };
-  }
+// CHAT_CLIENT=stub answers locally, for running the function without an API key
+const handler = createChatHandler({
+  client: process.env.CHAT_CLIENT === 'stub' ? new StubChatClient() : openAIChatClient(getOpenAI),
+  model: CHAT_MODEL,
+  rateLimiter: new RateLimiter(RATE_LIMIT, RATE_WINDOW_SECONDS * 1000)
+});
 
-  try {
-    const { message } = JSON.parse(event.body || '{}');
-    
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: message }],
-    });
+export default (req: Request, context: Context) => handler(req, context);
 
-    return {
-      statusCode: 200,
-      body: JSON.stringify({
-        message: completion.choices[0].message.content
-      })
-    };
-  } catch (error) {
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: 'Failed to process chat request' })
-    };
-  }
-};
\ No newline at end of file
+export const config: Config = {
+  path: '/api/chat'
+};
@@ -0,0 +1,52 @@
+import type { Config, Context } from '@netlify/functions';
+import { getOpenAI, EMBEDDING_MODEL } from '../lib/openai';
+import { errorResponse, jsonResponse, readJsonBody } from '../lib/http';
+import { EMBEDDING_LIMITS, parseEmbeddingRequest } from '../lib/embeddingRequest';
+import { clientIp, RateLimiter, rateLimitedResponse } from '../lib/rateLimit';
+
+const RATE_LIMIT = Number(process.env.EMBEDDINGS_RATE_LIMIT) || 60;
+const RATE_WINDOW_SECONDS = Number(process.env.EMBEDDINGS_RATE_WINDOW_SECONDS) || 60;
+
+const rateLimiter = new RateLimiter(RATE_LIMIT, RATE_WINDOW_SECONDS * 1000);
+
+export default async (req: Request, context: Context) => {
+  if (req.method !== 'POST') {
+    return errorResponse({ status: 405, code: 'method_not_allowed', message: 'Method Not Allowed' });
+  }
+
+  const read = await readJsonBody(req, EMBEDDING_LIMITS.maxBodyBytes);
+  if ('error' in read) {
+    return errorResponse(read.error);
+  }
+  const parsed = parseEmbeddingRequest(read.body);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error);
+  }
+
+  // Counted after validation, as for /api/chat
+  const limit = await rateLimiter.check(clientIp(req, context.ip));
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit.retryAfter);
+  }
+
+  try {
+    const response = await getOpenAI().embeddings.create(
+      { input: parsed.input, model: EMBEDDING_MODEL },
+      { signal: req.signal }
+    );
+
+    return jsonResponse(200, {
+      model: EMBEDDING_MODEL,
+      data: [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding)
+    });
+  } catch (error) {
+    console.error('Embedding request failed:', error);
+    return errorResponse({ status: 502, code: 'upstream_error', message: 'Failed to create embeddings' });
+  }
+};
+
+export const config: Config = {
+  path: '/api/embeddings'
+};
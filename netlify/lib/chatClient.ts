@@ -0,0 +1,56 @@
+import type OpenAI from 'openai';
+
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatTurn[];
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * The slice of a chat model the chat function needs. The promise settles
+ * once the upstream call is accepted, so connection and auth failures surface
+ * before any event is streamed; the iterable then yields text deltas.
+ */
+export interface ChatClient {
+  streamCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<string>>;
+}
+
+/** `getClient` runs per request, so a missing key is reported as a failed call */
+export const openAIChatClient = (getClient: () => OpenAI): ChatClient => ({
+  async streamCompletion({ model, messages, temperature, maxTokens }, signal) {
+    const stream = await getClient().chat.completions.create(
+      { model, messages, temperature, max_tokens: maxTokens, stream: true },
+      { signal }
+    );
+    return (async function* () {
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    })();
+  }
+});
+
+/**
+ * Local stand-in for OpenAI: streams `reply(messages)` word by word, by
+ * default echoing the last user turn. Lets the function run without a key.
+ */
+export class StubChatClient implements ChatClient {
+  constructor(
+    private readonly reply: (messages: ChatTurn[]) => string = messages =>
+      `Stub reply to: ${[...messages].reverse().find(turn => turn.role === 'user')?.content ?? ''}`
+  ) {}
+
+  async streamCompletion({ messages }: ChatCompletionRequest): Promise<AsyncIterable<string>> {
+    const words = this.reply(messages).split(/(?<=\s)/);
+    return (async function* () {
+      yield* words;
+    })();
+  }
+}
@@ -0,0 +1,69 @@
+import { errorResponse, sseResponse } from './http';
+import { ChatClient } from './chatClient';
+import { CHAT_LIMITS, parseChatRequest, toChatTurns } from './chatRequest';
+import { clientIp, RateLimiter, rateLimitedResponse } from './rateLimit';
+
+export interface ChatHandlerOptions {
+  client: ChatClient;
+  model: string;
+  rateLimiter: RateLimiter;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Builds the /api/chat handler around an injectable model client, so the
+ * function can run against a local stand-in. Failures before streaming get a
+ * status and code: 405 not a POST, then 400 invalid body or 413 over a size
+ * limit, then 429 rate limited (with Retry-After), then 502 when the model
+ * call is rejected. Only valid requests count towards the rate limit.
+ */
+export const createChatHandler = ({
+  client,
+  model,
+  rateLimiter,
+  temperature = 0.7,
+  maxTokens = 500
+}: ChatHandlerOptions) => async (req: Request, context?: { ip?: string }): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return errorResponse({ status: 405, code: 'method_not_allowed', message: 'Method Not Allowed' });
+  }
+
+  // Refuse oversized bodies before reading them when the size is declared
+  const declaredLength = Number(req.headers.get('content-length'));
+  if (declaredLength > CHAT_LIMITS.maxBodyBytes) {
+    return errorResponse({
+      status: 413,
+      code: 'payload_too_large',
+      message: `Request body exceeds ${CHAT_LIMITS.maxBodyBytes} bytes`
+    });
+  }
+
+  const parsed = parseChatRequest(await req.text());
+  if ('error' in parsed) {
+    return errorResponse(parsed.error);
+  }
+
+  // Counted after validation, so malformed or oversized bodies don't use up a client's quota
+  const limit = await rateLimiter.check(clientIp(req, context?.ip));
+  if (!limit.allowed) {
+    return rateLimitedResponse(limit.retryAfter);
+  }
+
+  let deltas: AsyncIterable<string>;
+  try {
+    deltas = await client.streamCompletion(
+      { model, messages: toChatTurns(parsed.request), temperature, maxTokens },
+      req.signal
+    );
+  } catch (error) {
+    console.error('Chat completion request failed:', error);
+    return errorResponse({ status: 502, code: 'upstream_error', message: 'The language model request failed' });
+  }
+
+  return sseResponse(async (send) => {
+    for await (const text of deltas) {
+      send('delta', { text });
+    }
+  });
+};
@@ -0,0 +1,101 @@
+import type { ApiError } from './http';
+import type { ChatTurn } from './chatClient';
+
+export const CHAT_LIMITS = {
+  maxBodyBytes: 64 * 1024,
+  maxMessages: 20,
+  maxMessageChars: 8000,
+  maxSystemChars: 16000
+};
+
+export interface ChatRequest {
+  /** Conversation so far, oldest first, ending with the user's turn */
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  system?: string;
+  /** Retrieved material to ground the answer in, sent as its own system turn */
+  context?: string;
+}
+
+type ParseResult = { request: ChatRequest } | { error: ApiError };
+
+const invalid = (message: string): ParseResult => ({ error: { status: 400, code: 'invalid_request', message } });
+const tooLarge = (message: string): ParseResult => ({ error: { status: 413, code: 'payload_too_large', message } });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a chat body. `messages` carries multi-turn history; the older
+ * single `message` string is still accepted as a one-turn conversation.
+ */
+export function parseChatRequest(raw: string): ParseResult {
+  if (new TextEncoder().encode(raw).length > CHAT_LIMITS.maxBodyBytes) {
+    return tooLarge(`Request body exceeds ${CHAT_LIMITS.maxBodyBytes} bytes`);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return invalid('Invalid JSON body');
+  }
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const { message, messages, system, context } = body;
+  if (messages !== undefined && message !== undefined) {
+    return invalid('Send either `messages` or `message`, not both');
+  }
+
+  const turns: unknown[] = messages !== undefined
+    ? (Array.isArray(messages) ? messages : [null])
+    : [{ role: 'user', content: message }];
+  if (turns.length === 0) {
+    return invalid('`messages` must contain at least one turn');
+  }
+  if (turns.length > CHAT_LIMITS.maxMessages) {
+    return tooLarge(`At most ${CHAT_LIMITS.maxMessages} messages are accepted`);
+  }
+
+  for (const [index, turn] of turns.entries()) {
+    if (!isRecord(turn) || (turn.role !== 'user' && turn.role !== 'assistant') || typeof turn.content !== 'string') {
+      return invalid(`Message ${index} must have a role of "user" or "assistant" and string content`);
+    }
+    if (!turn.content.trim()) {
+      return invalid(`Message ${index} is empty`);
+    }
+    if (turn.content.length > CHAT_LIMITS.maxMessageChars) {
+      return tooLarge(`Message ${index} exceeds ${CHAT_LIMITS.maxMessageChars} characters`);
+    }
+  }
+  const validTurns = turns as ChatRequest['messages'];
+  if (validTurns[validTurns.length - 1].role !== 'user') {
+    return invalid('The last message must come from the user');
+  }
+
+  for (const [name, value] of [['system', system], ['context', context]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      return invalid(`\`${name}\` must be a string`);
+    }
+    if (value.length > CHAT_LIMITS.maxSystemChars) {
+      return tooLarge(`\`${name}\` exceeds ${CHAT_LIMITS.maxSystemChars} characters`);
+    }
+  }
+
+  return {
+    request: {
+      messages: validTurns,
+      system: system as string | undefined,
+      context: context as string | undefined
+    }
+  };
+}
+
+/** System and context turns first, then the conversation */
+export const toChatTurns = ({ messages, system, context }: ChatRequest): ChatTurn[] => [
+  ...(system ? [{ role: 'system' as const, content: system }] : []),
+  ...(context ? [{ role: 'system' as const, content: `Context:\n${context}` }] : []),
+  ...messages
+];
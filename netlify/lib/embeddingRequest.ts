@@ -0,0 +1,34 @@
+import type { ApiError } from './http';
+
+export const EMBEDDING_LIMITS = {
+  maxBodyBytes: 256 * 1024,
+  // Enough to embed every knowledge-graph node description in one request
+  maxInputs: 128,
+  maxInputChars: 8000
+};
+
+type ParseResult = { input: string[] } | { error: ApiError };
+
+/** Validates the parsed body of an /api/embeddings request */
+export function parseEmbeddingRequest(body: unknown): ParseResult {
+  const input = typeof body === 'object' && body !== null ? (body as { input?: unknown }).input : undefined;
+  if (!Array.isArray(input) || input.length === 0 || !input.every(text => typeof text === 'string')) {
+    return { error: { status: 400, code: 'invalid_request', message: '`input` must be a non-empty array of strings' } };
+  }
+  if (input.length > EMBEDDING_LIMITS.maxInputs) {
+    return {
+      error: { status: 413, code: 'payload_too_large', message: `At most ${EMBEDDING_LIMITS.maxInputs} inputs are accepted` }
+    };
+  }
+  const longIndex = input.findIndex(text => text.length > EMBEDDING_LIMITS.maxInputChars);
+  if (longIndex !== -1) {
+    return {
+      error: {
+        status: 413,
+        code: 'payload_too_large',
+        message: `Input ${longIndex} exceeds ${EMBEDDING_LIMITS.maxInputChars} characters`
+      }
+    };
+  }
+  return { input };
+}
@@ -0,0 +1,89 @@
+export type SendEvent = (event: string, data: unknown) => void;
+
+export const jsonResponse = (statusCode: number, body: unknown, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status: statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+
+/** Machine-readable reasons a request failed, sent alongside the HTTP status */
+export type ErrorCode =
+  | 'method_not_allowed'
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'upstream_error';
+
+export interface ApiError {
+  status: number;
+  code: ErrorCode;
+  message: string;
+}
+
+export const errorResponse = ({ status, code, message }: ApiError, headers: Record<string, string> = {}): Response =>
+  jsonResponse(status, { error: message, code }, headers);
+
+/**
+ * Reads a JSON body of at most `maxBytes`, refusing a larger declared size
+ * before reading. Fails with 413 when too large and 400 when not JSON.
+ */
+export const readJsonBody = async (req: Request, maxBytes: number): Promise<{ body: unknown } | { error: ApiError }> => {
+  const tooLarge: ApiError = { status: 413, code: 'payload_too_large', message: `Request body exceeds ${maxBytes} bytes` };
+  if (Number(req.headers.get('content-length')) > maxBytes) {
+    return { error: tooLarge };
+  }
+  const raw = await req.text();
+  if (new TextEncoder().encode(raw).length > maxBytes) {
+    return { error: tooLarge };
+  }
+  try {
+    return { body: JSON.parse(raw) };
+  } catch {
+    return { error: { status: 400, code: 'invalid_request', message: 'Invalid JSON body' } };
+  }
+};
+
+/**
+ * Streams server-sent events produced by `producer`. A `done` event closes a
+ * successful stream; failures are reported as an `error` event because the
+ * 200 status has already gone out by the time they happen.
+ */
+export const sseResponse = (producer: (send: SendEvent) => Promise<void>): Response => {
+  const encoder = new TextEncoder();
+
+  // Set once the client disconnects, after which events are dropped
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await producer(send);
+        send('done', {});
+      } catch (error) {
+        console.error('Stream failed:', error);
+        send('error', { message: error instanceof Error ? error.message : 'Stream failed' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    }
+  });
+};
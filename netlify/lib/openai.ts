@@ -0,0 +1,17 @@
+import OpenAI from 'openai';
+
+let client: OpenAI | null = null;
+
+// The key only ever lives in the function environment; browsers talk to /api/*.
+// The client is created on first use, so a function running against a local
+// stand-in needs no key at all.
+export const getOpenAI = (): OpenAI => {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+};
+
+export const CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini';
+export const EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-ada-002';
+export const ASSISTANT_ID = process.env.OPENAI_ASSISTANT_ID || '';
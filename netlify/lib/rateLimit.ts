@@ -0,0 +1,78 @@
+import { errorResponse } from './http';
+
+export interface RateLimitWindow {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** Epoch milliseconds when the window resets */
+  resetAt: number;
+}
+
+/**
+ * Where request counts live. The in-memory store only sees the requests one
+ * function instance handles; a shared store (e.g. Netlify Blobs or Redis)
+ * can implement this to limit across instances.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitWindow>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, RateLimitWindow> = new Map();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitWindow> {
+    const now = Date.now();
+    this.prune(now);
+
+    const current = this.windows.get(key);
+    const window = current && current.resetAt > now
+      ? { ...current, count: current.count + 1 }
+      : { count: 1, resetAt: now + windowMs };
+    this.windows.set(key, window);
+    return window;
+  }
+
+  private prune(now: number) {
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the client may try again */
+  retryAfter: number;
+}
+
+/** Fixed-window limit of `limit` requests per `windowMs` for each key */
+export class RateLimiter {
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number,
+    private readonly store: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  async check(key: string): Promise<RateLimitResult> {
+    const { count, resetAt } = await this.store.increment(key, this.windowMs);
+    return {
+      allowed: count <= this.limit,
+      remaining: Math.max(this.limit - count, 0),
+      retryAfter: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 0)
+    };
+  }
+}
+
+/** Client address as Netlify reports it, falling back to proxy headers for other hosts */
+export const clientIp = (req: Request, contextIp?: string): string =>
+  contextIp ||
+  req.headers.get('x-nf-client-connection-ip') ||
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  'unknown';
+
+/** The 429 every rate-limited endpoint answers with */
+export const rateLimitedResponse = (retryAfter: number): Response =>
+  errorResponse(
+    { status: 429, code: 'rate_limited', message: `Too many requests, try again in ${retryAfter} seconds` },
+    { 'Retry-After': String(retryAfter) }
+  );
@@ -0,0 +1,71 @@
+/**
+ * Re-embeds every knowledge-graph node with its data-dictionary label and
+ * description, and rewrites the index the app ships with.
+ *
+ *   OPENAI_API_KEY=... npm run build:embeddings -- [--out-dir public/data]
+ *
+ * Writes graph_embeddings.index, node_names.txt, node_embeddings.json and
+ * node_embeddings_manifest.json. Rerun it whenever the graph or the dictionary
+ * changes; until then the app ignores the stale index and embeds the nodes itself.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DataDictionaryFile } from '../src/types/dataDictionary';
+import { EmbeddingIndexManifest, KnowledgeGraphFile } from '../src/types/knowledgeGraph';
+import { DataDictionary } from '../src/utils/dataDictionary';
+import { OpenAIEmbeddingProvider, PRECOMPUTED_EMBEDDING_MODEL } from '../src/utils/embeddingProvider';
+import { GraphStore } from '../src/utils/graphStore';
+import { VectorStore } from '../src/utils/vectorStore';
+
+const GRAPH_PATH = 'public/data/knowledge_graph.json';
+const DICTIONARY_PATH = 'public/data/data_dictionary.json';
+const BATCH_SIZE = 100;
+
+const { values: args } = parseArgs({
+  options: {
+    'out-dir': { type: 'string', default: 'public/data' }
+  }
+});
+
+const readJson = async <T>(path: string): Promise<T> => JSON.parse(await readFile(path, 'utf8'));
+
+async function main() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error(`OPENAI_API_KEY must be set to embed nodes with ${PRECOMPUTED_EMBEDDING_MODEL}`);
+  }
+
+  const graphStore = GraphStore.fromFile(await readJson<KnowledgeGraphFile>(GRAPH_PATH));
+  const dictionary = DataDictionary.fromFile(await readJson<DataDictionaryFile>(DICTIONARY_PATH));
+  const undocumented = graphStore.annotate(dictionary);
+  if (undocumented.length > 0) {
+    console.warn(`No dictionary entry for: ${undocumented.join(', ')}`);
+  }
+
+  const provider = new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY);
+  const ids = graphStore.getNodes().map(node => node.id);
+  const embeddings: { [id: string]: number[] } = {};
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(id => graphStore.getEmbeddingText(id)));
+    batch.forEach((id, index) => {
+      embeddings[id] = vectors[index];
+    });
+  }
+
+  const manifest: EmbeddingIndexManifest = { model: provider.model, fingerprint: graphStore.getEmbeddingFingerprint() };
+  const outDir = args['out-dir']!;
+  const vectorStore = VectorStore.fromEmbeddings(embeddings);
+  await Promise.all([
+    writeFile(join(outDir, 'graph_embeddings.index'), new Uint8Array(vectorStore.toFaissIndex())),
+    writeFile(join(outDir, 'node_names.txt'), ids.join('\n') + '\n'),
+    writeFile(join(outDir, 'node_embeddings.json'), JSON.stringify(embeddings)),
+    writeFile(join(outDir, 'node_embeddings_manifest.json'), JSON.stringify(manifest, null, 2) + '\n')
+  ]);
+  console.error(`Embedded ${ids.length} nodes with ${provider.model} into ${outDir}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,194 @@
+/**
+ * Drives the /api/chat handler with the stub model client, without a network
+ * or an OpenAI key.
+ *
+ *   npm run check:chat
+ *
+ * Covers request validation and size limits, every error status, streaming a
+ * reply, and the rate limiter's window. Exits non-zero listing failed checks.
+ */
+import assert from 'node:assert/strict';
+import { ChatClient, StubChatClient } from '../netlify/lib/chatClient';
+import { createChatHandler } from '../netlify/lib/chatHandler';
+import { CHAT_LIMITS, parseChatRequest } from '../netlify/lib/chatRequest';
+import { RateLimiter } from '../netlify/lib/rateLimit';
+
+const CHECKS: Array<{ name: string; run: () => Promise<void> }> = [];
+const check = (name: string, run: () => Promise<void>) => CHECKS.push({ name, run });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const handlerWith = (client: ChatClient = new StubChatClient(), limit = 100) =>
+  createChatHandler({ client, model: 'stub', rateLimiter: new RateLimiter(limit, 60_000) });
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+const userTurn = (content: string) => ({ role: 'user', content });
+
+async function expectError(response: Response, status: number, code: string) {
+  assert.equal(response.status, status);
+  const body = await response.json();
+  assert.equal(body.code, code);
+  assert.equal(typeof body.error, 'string');
+}
+
+const parseError = (raw: unknown) => {
+  const result = parseChatRequest(typeof raw === 'string' ? raw : JSON.stringify(raw));
+  assert.ok('error' in result, 'expected the body to be rejected');
+  return result.error;
+};
+
+check('parseChatRequest accepts messages and the single message form', async () => {
+  const multi = parseChatRequest(JSON.stringify({
+    messages: [userTurn('hi'), { role: 'assistant', content: 'hello' }, userTurn('and?')],
+    system: 'be brief',
+    context: 'facts'
+  }));
+  assert.ok('request' in multi);
+  assert.equal(multi.request.messages.length, 3);
+
+  const single = parseChatRequest(JSON.stringify({ message: 'hi' }));
+  assert.ok('request' in single);
+  assert.deepEqual(single.request.messages, [userTurn('hi')]);
+});
+
+check('parseChatRequest rejects malformed bodies with 400', async () => {
+  for (const raw of [
+    '{not json',
+    '[]',
+    {},
+    { messages: [] },
+    { message: 'a', messages: [userTurn('b')] },
+    { messages: [{ role: 'system', content: 'x' }] },
+    { messages: [userTurn('   ')] },
+    { messages: [userTurn('a'), { role: 'assistant', content: 'b' }] },
+    { message: 'a', system: 42 }
+  ]) {
+    assert.equal(parseError(raw).status, 400, `expected 400 for ${JSON.stringify(raw)}`);
+  }
+});
+
+check('parseChatRequest enforces each size limit with 413', async () => {
+  const over = (chars: number) => 'x'.repeat(chars + 1);
+  assert.equal(parseError(JSON.stringify({ message: over(CHAT_LIMITS.maxBodyBytes) })).status, 413);
+  assert.equal(parseError({ messages: Array(CHAT_LIMITS.maxMessages + 1).fill(userTurn('a')) }).status, 413);
+  assert.equal(parseError({ message: over(CHAT_LIMITS.maxMessageChars) }).status, 413);
+  assert.equal(parseError({ message: 'a', system: over(CHAT_LIMITS.maxSystemChars) }).status, 413);
+  assert.equal(parseError({ message: 'a', context: over(CHAT_LIMITS.maxSystemChars) }).status, 413);
+
+  // Exactly at each limit is still fine
+  const atLimit = parseChatRequest(JSON.stringify({
+    messages: Array(CHAT_LIMITS.maxMessages).fill(userTurn('a')),
+    system: 'x'.repeat(CHAT_LIMITS.maxSystemChars)
+  }));
+  assert.ok('request' in atLimit);
+});
+
+check('streams the stub reply as delta events', async () => {
+  const response = await handlerWith()(post({ message: 'hello there' }));
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('Content-Type')?.split(';')[0], 'text/event-stream');
+
+  const events = (await response.text()).trim().split('\n\n').map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+  });
+  const text = events.filter(({ event }) => event === 'delta').map(({ data }) => data.text).join('');
+  assert.equal(text, 'Stub reply to: hello there');
+  assert.equal(events[events.length - 1].event, 'done');
+});
+
+check('answers 405 to anything but POST', async () => {
+  await expectError(await handlerWith()(new Request('http://localhost/api/chat')), 405, 'method_not_allowed');
+});
+
+check('answers 400 and 413 from the handler', async () => {
+  const handler = handlerWith();
+  await expectError(await handler(post('{not json')), 400, 'invalid_request');
+  await expectError(
+    await handler(post({ message: 'a' }, { 'Content-Length': String(CHAT_LIMITS.maxBodyBytes + 1) })),
+    413,
+    'payload_too_large'
+  );
+  await expectError(await handler(post({ message: 'x'.repeat(CHAT_LIMITS.maxMessageChars + 1) })), 413, 'payload_too_large');
+});
+
+check('answers 429 with Retry-After once a client is over the limit', async () => {
+  const handler = handlerWith(new StubChatClient(), 2);
+  const from = (ip: string) => handler(post({ message: 'hi' }), { ip });
+
+  assert.equal((await from('10.0.0.1')).status, 200);
+  assert.equal((await from('10.0.0.1')).status, 200);
+  const limited = await from('10.0.0.1');
+  assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+  await expectError(limited, 429, 'rate_limited');
+
+  // Other clients keep their own quota
+  assert.equal((await from('10.0.0.2')).status, 200);
+});
+
+check('invalid requests do not use up the rate limit', async () => {
+  const handler = handlerWith(new StubChatClient(), 1);
+  for (let i = 0; i < 3; i++) {
+    assert.equal((await handler(post('{not json'), { ip: '10.0.0.3' })).status, 400);
+  }
+  assert.equal((await handler(post({ message: 'hi' }), { ip: '10.0.0.3' })).status, 200);
+});
+
+check('answers 502 when the model call is rejected', async () => {
+  const failing: ChatClient = {
+    streamCompletion: async () => {
+      throw new Error('upstream refused');
+    }
+  };
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    await expectError(await handlerWith(failing)(post({ message: 'hi' })), 502, 'upstream_error');
+  } finally {
+    console.error = originalError;
+  }
+});
+
+check('the rate limiter resets once its window has passed', async () => {
+  const limiter = new RateLimiter(2, 200);
+  assert.equal((await limiter.check('a')).allowed, true);
+  const second = await limiter.check('a');
+  assert.equal(second.allowed, true);
+  assert.equal(second.remaining, 0);
+  const third = await limiter.check('a');
+  assert.equal(third.allowed, false);
+  assert.equal(third.retryAfter, 1);
+
+  await sleep(250);
+  const next = await limiter.check('a');
+  assert.equal(next.allowed, true);
+  assert.equal(next.remaining, 1);
+});
+
+async function main() {
+  const failures: string[] = [];
+  for (const { name, run } of CHECKS) {
+    try {
+      await run();
+    } catch (error) {
+      failures.push(`${name}\n    ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`${failures.length} of ${CHECKS.length} checks failed:\n  ${failures.join('\n  ')}`);
+    process.exit(1);
+  }
+  console.log(`All ${CHECKS.length} chat handler checks passed`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Checks translateQuery against example chat questions on the shipped institutions.
+ *
+ *   npm run check:query-filter
+ *
+ * Each example lists the criteria it should produce as `field:min`, `field:max`
+ * or `state:XX`; quartile cut-offs depend on the data, so only the bound side
+ * is checked. Exits non-zero listing every question that translates differently.
+ */
+import { readFile } from 'node:fs/promises';
+import { Institution } from '../src/types/institution';
+import { InstitutionFilter } from '../src/types/institutionFilter';
+import { cleanInstitutionData } from '../src/utils/dataProcessing';
+import { translateQuery } from '../src/utils/queryFilter';
+
+const EXAMPLES: Array<{ query: string; criteria: string[] }> = [
+  { query: 'selective schools in Ohio with high aid', criteria: ['state:OH', 'admit_rate:max', 'sum_average_amount:min'] },
+  { query: 'admission rate under 20%', criteria: ['admit_rate:max'] },
+  { query: 'colleges with more than 5000 students', criteria: ['number_enrolled_total:min'] },
+  { query: 'small colleges in Vermont', criteria: ['state:VT', 'number_enrolled_total:max'] },
+  { query: 'large universities with low yield', criteria: ['number_enrolled_total:min', 'yield_rate:max'] },
+  // Generic nouns and set phrases aren't criteria
+  { query: 'How many high school graduates enroll in college?', criteria: [] },
+  { query: 'Which variables describe aid for low income students?', criteria: [] },
+  { query: 'How many applicants does a school get?', criteria: [] },
+  { query: 'Do high schools send many students to large state colleges?', criteria: [] },
+  { query: 'Are low-income students less likely to enroll?', criteria: [] },
+  // Abbreviations only name a state in a state context
+  { query: 'colleges in OH, PA or NY', criteria: ['state:OH', 'state:PA', 'state:NY'] },
+  { query: 'Which OH schools have low yield?', criteria: ['state:OH', 'yield_rate:max'] },
+  { query: 'Which variable gives the institution ID?', criteria: [] },
+  { query: "What's the ID variable for Harvard?", criteria: [] },
+  { query: 'OK, and what about graduation rates?', criteria: [] },
+  { query: 'Show me schools in Washington DC', criteria: ['state:DC'] },
+  { query: 'universities in Washington state', criteria: ['state:WA'] }
+];
+
+const criteriaOf = (filter: InstitutionFilter | null): string[] => {
+  if (!filter) return [];
+  return [
+    ...(filter.states ?? []).map(state => `state:${state}`),
+    ...Object.entries(filter.ranges).flatMap(([field, { min, max }]) => [
+      ...(min !== undefined ? [`${field}:min`] : []),
+      ...(max !== undefined ? [`${field}:max`] : [])
+    ])
+  ].sort();
+};
+
+async function main() {
+  const raw: Institution[] = JSON.parse(await readFile('public/institutions.json', 'utf8'));
+  const { institutions } = cleanInstitutionData(raw);
+
+  const failures = EXAMPLES.flatMap(({ query, criteria }) => {
+    const actual = criteriaOf(translateQuery(query, institutions));
+    const expected = [...criteria].sort();
+    return actual.join(',') === expected.join(',')
+      ? []
+      : [`"${query}"\n    expected [${expected.join(', ')}]\n    got      [${actual.join(', ')}]`];
+  });
+
+  if (failures.length > 0) {
+    console.error(`${failures.length} of ${EXAMPLES.length} examples failed:\n  ${failures.join('\n  ')}`);
+    process.exit(1);
+  }
+  console.log(`All ${EXAMPLES.length} examples translate as expected`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+/**
+ * Checks the rule-based follow-up rewrite against example conversations.
+ *
+ *   npm run check:query-rewriter
+ *
+ * Each example pairs the previous question and a follow-up with the standalone
+ * query the rules should produce. Exits non-zero listing every example that
+ * rewrites differently.
+ */
+import { isFollowUp, rewriteWithRules } from '../src/utils/queryRewriter';
+
+const EXAMPLES: Array<{ previous: string; query: string; expected: string }> = [
+  {
+    previous: 'Carnegie basic classification 2021',
+    query: 'What about 2019?',
+    expected: 'Carnegie basic classification 2019'
+  },
+  // A list of years replaces the old year as a whole, without stray connectors
+  {
+    previous: 'Carnegie basic classification 2021',
+    query: 'And in 2019 and 2020?',
+    expected: 'Carnegie basic classification 2019 and 2020'
+  },
+  {
+    previous: 'Enrollment by race from 2015 to 2018',
+    query: 'What about 2019, 2020 and 2021?',
+    expected: 'Enrollment by race from 2019, 2020 and 2021'
+  },
+  {
+    previous: 'Graduation rates by sector',
+    query: 'What about 2020?',
+    expected: 'Graduation rates by sector in 2020'
+  },
+  // A new place replaces the old one
+  {
+    previous: 'Which variables cover tuition in California?',
+    query: 'What about in Ohio?',
+    expected: 'Which variables cover tuition in Ohio'
+  },
+  {
+    previous: 'Admissions data for schools in New York and New Jersey',
+    query: 'What about West Virginia?',
+    expected: 'Admissions data for schools in West Virginia'
+  },
+  {
+    previous: 'Pell grant recipients',
+    query: 'And in Texas?',
+    expected: 'Pell grant recipients in Texas'
+  },
+  {
+    previous: 'Undergraduate enrollment in Ohio in 2020',
+    query: 'What about graduate in Michigan in 2021?',
+    expected: 'graduate enrollment in Michigan in 2021'
+  },
+  {
+    previous: 'Undergraduate enrollment by race',
+    query: 'What about graduate?',
+    expected: 'graduate enrollment by race'
+  },
+  {
+    previous: 'Federal student aid by institution',
+    query: 'What does it mean?',
+    expected: 'What does it mean, regarding: Federal student aid by institution'
+  }
+];
+
+async function main() {
+  const failures = EXAMPLES.flatMap(({ previous, query, expected }) => {
+    if (!isFollowUp(query)) {
+      return [`"${query}" is not read as a follow-up`];
+    }
+    const actual = rewriteWithRules(query, previous);
+    return actual === expected
+      ? []
+      : [`"${previous}" → "${query}"\n    expected "${expected}"\n    got      "${actual}"`];
+  });
+
+  if (failures.length > 0) {
+    console.error(`${failures.length} of ${EXAMPLES.length} examples failed:\n  ${failures.join('\n  ')}`);
+    process.exit(1);
+  }
+  console.log(`All ${EXAMPLES.length} follow-ups rewrite as expected`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+/**
+ * Scores GraphRAG retrieval against a golden set.
+ *
+ *   npm run eval:retrieval -- [--embedder local|cached|openai] [--k 10]
+ *     [--golden eval/golden_set.json] [--query-embeddings eval/query_embeddings.json]
+ *     [--hops 2] [--seed-count 5] [--lexical-weight 0.5]
+ *     [--json report.json] [--markdown report.md]
+ *
+ * Embedders:
+ *   local   hashed n-grams over an in-memory index of node descriptions; no network
+ *   cached  precomputed ada query vectors against the shipped FAISS index; no network.
+ *           The vectors aren't shipped: record them once with --embedder openai
+ *   openai  embeds with OPENAI_API_KEY and saves the vectors for later cached runs
+ *
+ * The Markdown report goes to stdout unless --markdown is given.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { DataDictionaryFile } from '../src/types/dataDictionary';
+import { GoldenSet } from '../src/types/evaluation';
+import { KnowledgeGraphFile } from '../src/types/knowledgeGraph';
+import {
+  EmbeddingProvider,
+  HashedNgramEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  PrecomputedEmbeddingProvider,
+  PRECOMPUTED_EMBEDDING_MODEL
+} from '../src/utils/embeddingProvider';
+import { DataDictionary } from '../src/utils/dataDictionary';
+import { GraphRAGClient, RetrievalOptions } from '../src/utils/graphRAG';
+import { GraphStore } from '../src/utils/graphStore';
+import { evaluateRetrieval, formatReportMarkdown, validateGoldenSet } from '../src/utils/retrievalEval';
+import { VectorStore } from '../src/utils/vectorStore';
+
+const GRAPH_PATH = 'public/data/knowledge_graph.json';
+const DICTIONARY_PATH = 'public/data/data_dictionary.json';
+const INDEX_PATH = 'public/data/graph_embeddings.index';
+const NAMES_PATH = 'public/data/node_names.txt';
+
+const { values: args } = parseArgs({
+  options: {
+    golden: { type: 'string', default: 'eval/golden_set.json' },
+    embedder: { type: 'string', default: 'local' },
+    'query-embeddings': { type: 'string', default: 'eval/query_embeddings.json' },
+    k: { type: 'string', default: '10' },
+    hops: { type: 'string' },
+    'seed-count': { type: 'string' },
+    'lexical-weight': { type: 'string' },
+    json: { type: 'string' },
+    markdown: { type: 'string' }
+  }
+});
+
+const readJson = async <T>(path: string): Promise<T> => JSON.parse(await readFile(path, 'utf8'));
+
+const parseNumberArg = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`--${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+async function loadVectorStore(): Promise<VectorStore> {
+  const [index, names] = await Promise.all([readFile(INDEX_PATH), readFile(NAMES_PATH, 'utf8')]);
+  const buffer = index.buffer.slice(index.byteOffset, index.byteOffset + index.byteLength);
+  return VectorStore.fromFaissIndex(buffer, names.split('\n').map(name => name.trim()).filter(Boolean));
+}
+
+/** Cached ada vectors for every golden question, or an error saying how to record them */
+async function loadQueryEmbeddings(path: string, goldenSet: GoldenSet): Promise<{ [text: string]: number[] }> {
+  const howToRecord =
+    `Record them once with \`OPENAI_API_KEY=... npm run eval:retrieval -- --embedder openai --query-embeddings ${path}\`, ` +
+    'or use --embedder local, which needs no vectors.';
+
+  let vectors: { [text: string]: number[] };
+  try {
+    vectors = await readJson(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`No cached query embeddings at ${path}. ${howToRecord}`);
+    }
+    throw error;
+  }
+
+  const missing = goldenSet.questions.filter(({ question }) => !vectors[question]).map(({ id }) => id);
+  if (missing.length > 0) {
+    const listed = missing.length > 5 ? `${missing.slice(0, 5).join(', ')}, …` : missing.join(', ');
+    throw new Error(`${path} has no vectors for ${missing.length} golden questions (${listed}). ${howToRecord}`);
+  }
+  return vectors;
+}
+
+/** Wraps a provider so every query vector it returns is kept for the cache file */
+function recording(provider: EmbeddingProvider, cache: { [text: string]: number[] }): EmbeddingProvider {
+  return {
+    model: provider.model,
+    dimension: provider.dimension,
+    async embed(texts, signal) {
+      const vectors = await provider.embed(texts, signal);
+      texts.forEach((text, index) => {
+        cache[text] = vectors[index];
+      });
+      return vectors;
+    }
+  };
+}
+
+async function main() {
+  const k = parseNumberArg('k', args.k) ?? 10;
+  const options: Partial<RetrievalOptions> = {};
+  const hops = parseNumberArg('hops', args.hops);
+  const seedCount = parseNumberArg('seed-count', args['seed-count']);
+  const lexicalWeight = parseNumberArg('lexical-weight', args['lexical-weight']);
+  if (hops !== undefined) options.hops = hops;
+  if (seedCount !== undefined) options.seedCount = seedCount;
+  if (lexicalWeight !== undefined) options.lexicalWeight = lexicalWeight;
+
+  const graphStore = GraphStore.fromFile(await readJson<KnowledgeGraphFile>(GRAPH_PATH));
+  const dictionary = DataDictionary.fromFile(await readJson<DataDictionaryFile>(DICTIONARY_PATH));
+  const goldenSet = await readJson<GoldenSet>(args.golden!);
+  validateGoldenSet(goldenSet, graphStore);
+
+  const queryCachePath = args['query-embeddings']!;
+  const recorded: { [text: string]: number[] } = {};
+  let client: GraphRAGClient;
+  let embeddingModel: string;
+
+  switch (args.embedder) {
+    case 'local': {
+      const provider = new HashedNgramEmbeddingProvider();
+      embeddingModel = provider.model;
+      client = await GraphRAGClient.fromStores(provider, graphStore, dictionary);
+      break;
+    }
+    case 'cached': {
+      const vectors = await loadQueryEmbeddings(queryCachePath, goldenSet);
+      const provider = new PrecomputedEmbeddingProvider(PRECOMPUTED_EMBEDDING_MODEL, vectors);
+      embeddingModel = provider.model;
+      client = await GraphRAGClient.fromStores(provider, graphStore, dictionary, await loadVectorStore());
+      break;
+    }
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY must be set for --embedder openai');
+      }
+      const provider = new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY);
+      embeddingModel = provider.model;
+      client = await GraphRAGClient.fromStores(
+        recording(provider, recorded), graphStore, dictionary, await loadVectorStore()
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown embedder "${args.embedder}" (expected local, cached or openai)`);
+  }
+
+  const report = await evaluateRetrieval(client, goldenSet, {
+    k,
+    embeddingModel,
+    graphVersion: graphStore.version,
+    options
+  });
+
+  if (args.embedder === 'openai') {
+    await writeFile(queryCachePath, JSON.stringify(recorded) + '\n');
+    console.error(`Saved ${Object.keys(recorded).length} query embeddings to ${queryCachePath}`);
+  }
+  if (args.json) {
+    await writeFile(args.json, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  const markdown = formatReportMarkdown(report);
+  if (args.markdown) {
+    await writeFile(args.markdown, markdown);
+  } else {
+    process.stdout.write(markdown);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Map from './components/Map';
 import DetailsPanel from './components/DetailsPanel';
 import ApplicantDetailsPanel from './components/ApplicantDetailsPanel';
@@ -8,39 +8,51 @@ import ApplicantList from './components/ApplicantList';
 import ApplicantContextPanel from './components/ApplicantContextPanel';
 import DataTable from './components/DataTable';
 import Chat from './components/Chat';
+import DataQualityPanel from './components/DataQualityPanel';
+import ComparisonPanel from './components/ComparisonPanel';
 import { Institution } from './types/institution';
 import { Applicant } from './types/applicant';
+import { InstitutionFilter, SearchFilters } from './types/institutionFilter';
+import { DataQualityReport } from './types/dataQuality';
+import { AppUrlState, TableSort } from './types/urlState';
 import { cleanInstitutionData } from './utils/dataProcessing';
+import { availableYears, groupByInstitution, loadInstitutionSnapshots } from './utils/institutionYears';
+import { matchesSearchFilters } from './utils/filterBuilder';
+import { matchesFilter } from './utils/queryFilter';
+import { togglePinned } from './utils/comparison';
+import { isNavigation, parseUrlState, serializeUrlState } from './utils/urlState';
 import { Loader2, AlertCircle, Info, Bot } from 'lucide-react';
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'colleges' | 'applicants' | 'chat'>('colleges');
+  // The view opened from the link, if any
+  const [linked] = useState(() => parseUrlState(window.location.search));
+  const [activeTab, setActiveTab] = useState(linked.tab);
   const [institutions, setInstitutions] = useState<Institution[]>([]);
   const [applicants, setApplicants] = useState<Applicant[]>([]);
-  const [filteredInstitutions, setFilteredInstitutions] = useState<Institution[]>([]);
-  const [selectedInstitution, setSelectedInstitution] = useState<Institution | null>(null);
-  const [selectedApplicant, setSelectedApplicant] = useState<Applicant | null>(null);
+  const [selectedUnitid, setSelectedUnitid] = useState(linked.unitid);
+  const [pinnedUnitids, setPinnedUnitids] = useState(linked.compare);
+  const [selectedApplicantId, setSelectedApplicantId] = useState(linked.applicantId);
   const [hoveredInstitution, setHoveredInstitution] = useState<Institution | null>(null);
+  const [filters, setFilters] = useState(linked.filters);
+  const [queryFilter, setQueryFilter] = useState(linked.queryFilter);
+  const [qualityReport, setQualityReport] = useState<DataQualityReport | null>(null);
+  // Null follows the latest loaded year
+  const [selectedYear, setSelectedYear] = useState(linked.year);
+  const [viewport, setViewport] = useState(linked.viewport);
+  const [sorting, setSorting] = useState(linked.sort);
+  const [pageIndex, setPageIndex] = useState(linked.page);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     Promise.all([
-      fetch('/institutions.json'),
-      fetch('/applicants.json')
+      loadInstitutionSnapshots(),
+      fetch('/applicants.json').then(applicantsRes => applicantsRes.json())
     ])
-      .then(([institutionsRes, applicantsRes]) => 
-        Promise.all([institutionsRes.json(), applicantsRes.json()])
-      )
       .then(([institutionsData, applicantsData]) => {
-        const validData = institutionsData.filter((inst: Institution) => 
-          inst.admit_rate !== null && 
-          !isNaN(inst.admit_rate) && 
-          inst.admit_rate > 0
-        );
-        const cleanedData = cleanInstitutionData(validData);
+        const { institutions: cleanedData, report } = cleanInstitutionData(institutionsData);
         setInstitutions(cleanedData);
-        setFilteredInstitutions(cleanedData);
+        setQualityReport(report);
         setApplicants(applicantsData);
         setLoading(false);
       })
@@ -50,14 +62,114 @@ export default function App() {
       });
   }, []);
 
+  useEffect(() => {
+    const restore = () => {
+      const state = parseUrlState(window.location.search);
+      setActiveTab(state.tab);
+      setSelectedYear(state.year);
+      setSelectedUnitid(state.unitid);
+      setPinnedUnitids(state.compare);
+      setSelectedApplicantId(state.applicantId);
+      setFilters(state.filters);
+      setQueryFilter(state.queryFilter);
+      setViewport(state.viewport);
+      setSorting(state.sort);
+      setPageIndex(state.page);
+    };
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  const urlState = useMemo<AppUrlState>(() => ({
+    tab: activeTab,
+    year: selectedYear,
+    unitid: selectedUnitid,
+    compare: pinnedUnitids,
+    applicantId: selectedApplicantId,
+    filters,
+    queryFilter,
+    viewport,
+    sort: sorting,
+    page: pageIndex
+  }), [activeTab, selectedYear, selectedUnitid, pinnedUnitids, selectedApplicantId, filters, queryFilter, viewport, sorting, pageIndex]);
+
+  useEffect(() => {
+    // Keep the link as opened until the data is there to restore it against
+    if (loading) return;
+    const search = serializeUrlState(urlState);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (isNavigation(parseUrlState(window.location.search), urlState)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [urlState, loading]);
+
+  const years = useMemo(() => availableYears(institutions), [institutions]);
+  const history = useMemo(() => groupByInstitution(institutions), [institutions]);
+  // A linked year that isn't loaded falls back to the latest
+  const activeYear = selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[0] ?? null;
+  // Everything but the details panel's trends works on one year at a time
+  const yearInstitutions = useMemo(
+    () => institutions.filter(inst => inst.year === activeYear),
+    [institutions, activeYear]
+  );
+  const filteredInstitutions = useMemo(() => {
+    const matchesQuery = queryFilter ? matchesFilter(queryFilter) : () => true;
+    const matchesSearch = matchesSearchFilters(filters);
+    return yearInstitutions.filter(inst => matchesSearch(inst) && matchesQuery(inst));
+  }, [yearInstitutions, filters, queryFilter]);
+
+  // The institution's row in the active year, or null if it has none
+  const inActiveYear = (unitid: number | undefined): Institution | null =>
+    unitid === undefined ? null : history.get(unitid)?.find(inst => inst.year === activeYear) ?? null;
+
+  const detailsInstitution = inActiveYear(selectedUnitid ?? hoveredInstitution?.unitid);
+  // Pinned schools without a row in the active year drop out until it changes back
+  const pinnedInstitutions = pinnedUnitids
+    .map(unitid => inActiveYear(unitid))
+    .filter((inst): inst is Institution => inst !== null);
+  const selectedApplicant = applicants.find(applicant => applicant.applicant_id === selectedApplicantId) ?? null;
+
+  const selectInstitution = (institution: Institution) => setSelectedUnitid(institution.unitid);
+  const selectApplicant = (applicant: Applicant) => setSelectedApplicantId(applicant.applicant_id);
+  const togglePin = (institution: Institution) => setPinnedUnitids(prev => togglePinned(prev, institution.unitid));
+
+  // Anything that changes the table rows starts it over at the first page
+  const updateFilters = (next: SearchFilters) => {
+    setFilters(next);
+    setPageIndex(0);
+  };
+
+  const updateQueryFilter = (filter: InstitutionFilter | null) => {
+    setQueryFilter(filter);
+    setPageIndex(0);
+  };
+
+  const updateYear = (year: number) => {
+    setSelectedYear(year);
+    setPageIndex(0);
+  };
+
+  const updateSorting = (next: TableSort[]) => {
+    setSorting(next);
+    setPageIndex(0);
+  };
+
   const getApplicantInstitutions = (applicant: Applicant): Institution[] => {
-    return institutions.filter(inst => 
+    return yearInstitutions.filter(inst => 
       applicant.applied_to.includes(inst.unitid)
     );
   };
 
   const handleViewDetails = (institution: Institution) => {
-    setSelectedInstitution(institution);
+    selectInstitution(institution);
+    setActiveTab('colleges');
+  };
+
+  const handleApplyQueryFilter = (filter: InstitutionFilter) => {
+    updateQueryFilter(filter);
     setActiveTab('colleges');
   };
 
@@ -107,25 +219,54 @@ export default function App() {
             </div>
             <div className="p-4 bg-gray-50">
               <SearchFilterPanel 
-                institutions={institutions}
-                onFilterChange={setFilteredInstitutions}
+                institutions={yearInstitutions}
+                filters={filters}
+                onFiltersChange={updateFilters}
+                queryFilter={queryFilter}
+                onClearQueryFilter={() => updateQueryFilter(null)}
+                years={years}
+                selectedYear={activeYear}
+                onYearChange={updateYear}
               />
             </div>
             <div className="flex flex-1 h-[calc(100vh-116px)] px-5 pb-5 gap-6">
               <div className="w-[70%] relative rounded-lg overflow-hidden shadow-lg">
                 <Map 
                   institutions={filteredInstitutions}
-                  onInstitutionSelect={setSelectedInstitution}
+                  onInstitutionSelect={selectInstitution}
+                  viewport={viewport}
+                  onViewportChange={setViewport}
+                  pinnedUnitids={pinnedUnitids}
+                  onTogglePin={togglePin}
                 />
               </div>
               <div className="w-[30%] bg-white rounded-lg shadow-lg overflow-y-auto">
-                <DetailsPanel institution={selectedInstitution || hoveredInstitution} />
+                <DetailsPanel
+                  institution={detailsInstitution}
+                  history={detailsInstitution ? history.get(detailsInstitution.unitid) : undefined}
+                />
               </div>
             </div>
             <div className="min-h-screen bg-gray-50 p-4">
+              {pinnedInstitutions.length > 0 && (
+                <ComparisonPanel
+                  institutions={pinnedInstitutions}
+                  dataset={yearInstitutions}
+                  year={activeYear}
+                  onRemove={togglePin}
+                  onClear={() => setPinnedUnitids([])}
+                />
+              )}
+              {qualityReport && <DataQualityPanel report={qualityReport} />}
               <DataTable 
                 data={filteredInstitutions}
                 onRowHover={setHoveredInstitution}
+                sorting={sorting}
+                onSortingChange={updateSorting}
+                pageIndex={pageIndex}
+                onPageIndexChange={setPageIndex}
+                pinnedUnitids={pinnedUnitids}
+                onTogglePin={togglePin}
               />
             </div>
           </>
@@ -143,7 +284,7 @@ export default function App() {
               <ApplicantList
                 applicants={applicants}
                 selectedApplicant={selectedApplicant}
-                onApplicantSelect={setSelectedApplicant}
+                onApplicantSelect={selectApplicant}
               />
             </div>
             <div className="px-5">
@@ -151,7 +292,7 @@ export default function App() {
                 <ApplicantContextPanel
                   applicant={selectedApplicant}
                   allApplicants={applicants}
-                  institutions={institutions}
+                  institutions={yearInstitutions}
                 />
               )}
             </div>
@@ -159,7 +300,7 @@ export default function App() {
               <div className="w-[70%] relative rounded-lg overflow-hidden shadow-lg">
                 <Map 
                   institutions={selectedApplicant ? getApplicantInstitutions(selectedApplicant) : []}
-                  onInstitutionSelect={setSelectedInstitution}
+                  onInstitutionSelect={selectInstitution}
                   onViewDetails={handleViewDetails}
                 />
               </div>
@@ -196,7 +337,11 @@ export default function App() {
                 </p>
               </div>
             </div>
-            <Chat />
+            <Chat
+              institutions={yearInstitutions}
+              applicants={applicants}
+              onApplyFilter={handleApplyQueryFilter}
+            />
           </>
         )}
       </div>
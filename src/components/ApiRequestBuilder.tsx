@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { AlertCircle, Check, Copy, Plus, X } from 'lucide-react';
+import { ApiRequest, SnippetLanguage } from '../types/apiRequest';
+import { renderSnippet, validateRequest } from '../utils/apiRequest';
+import { EndpointCatalog } from '../utils/endpointCatalog';
+
+const LANGUAGES: Array<{ id: SnippetLanguage; label: string }> = [
+  { id: 'url', label: 'URL' },
+  { id: 'r', label: 'R' },
+  { id: 'python', label: 'Python' },
+  { id: 'stata', label: 'Stata' }
+];
+
+interface ApiRequestBuilderProps {
+  catalog: EndpointCatalog;
+  /** Drafts from draftRequests; edits stay local to the builder */
+  drafts: ApiRequest[];
+}
+
+export default function ApiRequestBuilder({ catalog, drafts }: ApiRequestBuilderProps) {
+  const [requests, setRequests] = useState(drafts);
+  const [language, setLanguage] = useState<SnippetLanguage>('url');
+  const [copied, setCopied] = useState<number | null>(null);
+
+  const updateRequest = (index: number, update: (request: ApiRequest) => ApiRequest) => {
+    setRequests(prev => prev.map((request, i) => (i === index ? update(request) : request)));
+  };
+
+  const setFilterValues = (index: number, variable: string, values: string[]) => {
+    updateRequest(index, request => ({
+      ...request,
+      filters: request.filters.map(filter => (filter.variable === variable ? { ...filter, values } : filter))
+    }));
+  };
+
+  const copy = async (index: number, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(index);
+      setTimeout(() => setCopied(current => (current === index ? null : current)), 1500);
+    } catch (err) {
+      console.error('Failed to copy request:', err);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      {requests.map((request, index) => {
+        const endpoint = catalog.getEndpoint(request.endpoint)!;
+        const errors = validateRequest(request, catalog);
+        const text = renderSnippet(language, request, catalog);
+        const years = Array.from(
+          { length: endpoint.years.end - endpoint.years.start + 1 },
+          (_, offset) => endpoint.years.end - offset
+        );
+        // Retrieved variables the endpoint can filter on and that aren't filtered yet
+        const addable = request.variables.filter(variable =>
+          endpoint.filters.includes(variable.name) &&
+          !request.filters.some(filter => filter.variable === variable.name)
+        );
+
+        return (
+          <div key={request.endpoint} className="bg-gray-50 rounded p-3 text-sm text-gray-600">
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+              <span className="font-medium text-gray-700">{endpoint.label}</span>
+              <label className="flex items-center gap-1 text-xs">
+                Year
+                <select
+                  value={request.year}
+                  onChange={e => updateRequest(index, prev => ({ ...prev, year: Number(e.target.value) }))}
+                  className="border rounded px-1 py-0.5 bg-white"
+                >
+                  {years.map(year => <option key={year} value={year}>{year}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              {request.filters.map(filter => {
+                const codes = request.variables.find(variable => variable.name === filter.variable)?.values;
+                return (
+                  <span key={filter.variable} className="flex items-center gap-1 text-xs bg-white border rounded px-2 py-1">
+                    <code>{filter.variable}</code> =
+                    {codes ? (
+                      <select
+                        value={filter.values[0] ?? ''}
+                        onChange={e => setFilterValues(index, filter.variable, e.target.value ? [e.target.value] : [])}
+                        className="max-w-[12rem] bg-white"
+                      >
+                        <option value="">Choose…</option>
+                        {Object.entries(codes).map(([code, meaning]) => (
+                          <option key={code} value={code}>{code}: {meaning}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        value={filter.values.join(',')}
+                        onChange={e => setFilterValues(
+                          index,
+                          filter.variable,
+                          e.target.value.split(',').map(value => value.trim()).filter(Boolean)
+                        )}
+                        className="w-24 px-1"
+                        placeholder="value, …"
+                      />
+                    )}
+                    <button
+                      onClick={() => updateRequest(index, prev => ({
+                        ...prev,
+                        filters: prev.filters.filter(candidate => candidate.variable !== filter.variable)
+                      }))}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Remove filter"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                );
+              })}
+              {addable.length > 0 && (
+                <label className="flex items-center gap-1 text-xs text-blue-600">
+                  <Plus className="w-3 h-3" />
+                  <select
+                    value=""
+                    onChange={e => e.target.value && updateRequest(index, prev => ({
+                      ...prev,
+                      filters: [...prev.filters, { variable: e.target.value, values: [] }]
+                    }))}
+                    className="bg-transparent"
+                  >
+                    <option value="">Add filter</option>
+                    {addable.map(variable => (
+                      <option key={variable.name} value={variable.name}>{variable.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="mb-2 space-y-0.5">
+                {errors.map(error => (
+                  <li key={error} className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex rounded border overflow-hidden">
+                {LANGUAGES.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => setLanguage(id)}
+                    className={`px-2 py-0.5 text-xs ${
+                      language === id ? 'bg-gray-200 text-gray-800' : 'bg-white text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => copy(index, text)}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+              >
+                {copied === index ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                {copied === index ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <pre className="text-xs bg-gray-900 text-gray-100 rounded p-2 overflow-x-auto whitespace-pre">{text}</pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
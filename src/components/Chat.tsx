@@ -1,64 +1,116 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, AlertCircle, Bot, User, Wifi, WifiOff, XCircle, Database, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Send, Loader2, AlertCircle, Bot, User, Wifi, WifiOff, XCircle, Eye, EyeOff } from 'lucide-react';
 import { GraphRAGClient } from '../utils/graphRAG';
 import { AssistantClient } from '../utils/assistantClient';
+import { createEmbeddingProvider } from '../utils/embeddingProvider';
+import { createDataTools } from '../utils/assistantTools';
+import { Institution } from '../types/institution';
+import { Applicant } from '../types/applicant';
+import { InstitutionFilter } from '../types/institutionFilter';
+import { CacheHit, NodeDetails, QueryRewrite } from '../types/knowledgeGraph';
+import { Conversation, ChatMessage, ConversationSummary } from '../types/conversation';
+import { citedIndices, nodeCardId, splitCitations } from '../utils/citations';
+import { ConversationStore } from '../utils/conversationStore';
+import { EndpointCatalog } from '../utils/endpointCatalog';
+import { ConversationTurn, QueryRewriter } from '../utils/queryRewriter';
+import { translateQuery } from '../utils/queryFilter';
+import KnowledgeGraphPanel from './KnowledgeGraphPanel';
+import ConversationSidebar from './ConversationSidebar';
+import FilterSuggestion from './FilterSuggestion';
 
-interface Message {
-  id: string;
-  content: string;
-  isBot: boolean;
-  timestamp: Date;
-  status: 'typing' | 'sending' | 'delivered' | 'failed';
-  knowledgeGraph?: {
-    relevantNodes: Array<{
-      name: string;
-      label: string;
-      format: string;
-      type: string;
-      similarity: number;
-      relationships: Array<{
-        type: string;
-        target: string;
-      }>;
-    }>;
-  };
+const MAX_TITLE_LENGTH = 60;
+// Recent turns the query rewriter sees when resolving a follow-up
+const MAX_REWRITE_TURNS = 6;
+
+/** Delivered turns, with each question replaced by the standalone query it was retrieved for */
+const conversationTurns = (history: ChatMessage[]): ConversationTurn[] =>
+  history
+    .flatMap((msg, index): ConversationTurn[] => {
+      if (msg.status !== 'delivered') return [];
+      if (msg.isBot) return [{ role: 'assistant', content: msg.content }];
+      const rewrite = history[index + 1]?.knowledgeGraph?.rewrite;
+      return [{ role: 'user', content: rewrite?.query ?? msg.content }];
+    })
+    .slice(-MAX_REWRITE_TURNS);
+
+interface ChatProps {
+  institutions: Institution[];
+  applicants: Applicant[];
+  /** Applies a filter read from a question to the Colleges tab */
+  onApplyFilter: (filter: InstitutionFilter) => void;
 }
 
-export default function Chat() {
-  const [messages, setMessages] = useState<Message[]>([]);
+export default function Chat({ institutions, applicants, onApplyFilter }: ChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(true);
   const [assistantName, setAssistantName] = useState('AI Assistant');
   const [showKnowledgeGraph, setShowKnowledgeGraph] = useState(true);
+  // Expanded knowledge graph cards, keyed `${messageId}:${nodeId}`
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  // Metadata of the open conversation; null until its first message is sent
+  const [activeConversation, setActiveConversation] = useState<Omit<Conversation, 'messages'> | null>(null);
+  const [endpointCatalog, setEndpointCatalog] = useState<EndpointCatalog | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const assistantClient = useRef<AssistantClient | null>(null);
   const graphRAGClient = useRef<GraphRAGClient | null>(null);
+  const conversationStore = useRef(new ConversationStore());
+  // VITE_QUERY_REWRITER=rules keeps follow-up rewriting offline
+  const queryRewriter = useRef(
+    new QueryRewriter(import.meta.env.VITE_QUERY_REWRITER === 'rules' ? null : '/api/chat')
+  );
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await conversationStore.current.list());
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+    }
+  }, []);
 
   useEffect(() => {
     const initializeClients = async () => {
       try {
-        // Initialize Assistant Client
-        const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-        const assistantId = import.meta.env.VITE_OPENAI_ASSISTANT_ID;
-        
-        if (!apiKey || !assistantId) {
-          throw new Error('Missing OpenAI configuration');
-        }
-
-        assistantClient.current = new AssistantClient(apiKey, assistantId);
+        // Initialize Assistant Client; OpenAI calls go through the /api functions
+        assistantClient.current = new AssistantClient();
         const assistant = await assistantClient.current.initialize();
         setAssistantName(assistant.name || 'AI Assistant');
-        await assistantClient.current.createThread();
+
+        // Pick up the most recent conversation on its existing thread; a new
+        // thread is only created once a new conversation sends its first message
+        try {
+          const saved = await conversationStore.current.list();
+          setConversations(saved);
+          const conversation = saved.length > 0 ? await conversationStore.current.get(saved[0].id) : null;
+          if (conversation) {
+            const { messages: savedMessages, ...metadata } = conversation;
+            assistantClient.current.attachThread(conversation.threadId);
+            setActiveConversation(metadata);
+            setMessages(savedMessages);
+          }
+        } catch (err) {
+          console.error('Failed to restore conversations, continuing without history:', err);
+        }
 
         // Initialize GraphRAG Client
-        graphRAGClient.current = new GraphRAGClient(apiKey);
+        const embeddingProvider = createEmbeddingProvider({
+          provider: import.meta.env.VITE_EMBEDDING_PROVIDER,
+          model: import.meta.env.VITE_EMBEDDING_MODEL
+        });
+        graphRAGClient.current = new GraphRAGClient(embeddingProvider);
         await graphRAGClient.current.ensureInitialized();
 
+        // API requests are an extra; chat works without the catalog
+        EndpointCatalog.load()
+          .then(setEndpointCatalog)
+          .catch(err => console.error('Failed to load endpoint catalog:', err));
+
         setIsConnected(true);
       } catch (err) {
         console.error('Failed to initialize clients:', err);
@@ -74,10 +126,31 @@ export default function Chat() {
     };
   }, []);
 
+  // Runs after the client is created above; re-registering replaces the tools
+  // whenever the loaded data changes
+  useEffect(() => {
+    createDataTools(institutions, applicants).forEach(tool => assistantClient.current?.registerTool(tool));
+  }, [institutions, applicants]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Persist once nothing is in flight rather than on every streamed delta
+  useEffect(() => {
+    if (!activeConversation || messages.some(msg => msg.status === 'typing' || msg.status === 'sending')) return;
+
+    const lastMessage = messages[messages.length - 1];
+    conversationStore.current
+      .save({
+        ...activeConversation,
+        updatedAt: lastMessage ? lastMessage.timestamp : activeConversation.createdAt,
+        messages
+      })
+      .then(refreshConversations)
+      .catch(err => console.error('Failed to save conversation:', err));
+  }, [activeConversation, messages, refreshConversations]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -90,6 +163,54 @@ export default function Chat() {
     setIsLoading(false);
   };
 
+  const startNewConversation = () => {
+    if (isLoading) return;
+    assistantClient.current?.detachThread();
+    setActiveConversation(null);
+    setMessages([]);
+    setExpandedNodes(new Set());
+  };
+
+  const resumeConversation = async (id: string) => {
+    if (isLoading || !assistantClient.current || id === activeConversation?.id) return;
+
+    try {
+      const conversation = await conversationStore.current.get(id);
+      if (!conversation) return;
+
+      const { messages: savedMessages, ...metadata } = conversation;
+      assistantClient.current.attachThread(conversation.threadId);
+      setActiveConversation(metadata);
+      setMessages(savedMessages);
+      setExpandedNodes(new Set());
+    } catch (err) {
+      console.error('Failed to resume conversation:', err);
+    }
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      await conversationStore.current.rename(id, title);
+      // Keep the open conversation's metadata in step so the next save keeps the title
+      setActiveConversation(prev => (prev?.id === id ? { ...prev, title } : prev));
+      await refreshConversations();
+    } catch (err) {
+      console.error('Failed to rename conversation:', err);
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await conversationStore.current.delete(id);
+      if (id === activeConversation?.id) {
+        startNewConversation();
+      }
+      await refreshConversations();
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+    }
+  };
+
   const regenerateResponse = async (messageId: string) => {
     const messageIndex = messages.findIndex(m => m.id === messageId);
     if (messageIndex === -1) return;
@@ -110,7 +231,7 @@ export default function Chat() {
     e.preventDefault();
     if (!input.trim() || isLoading || !assistantClient.current || !graphRAGClient.current) return;
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
       content: input.trim(),
       isBot: false,
@@ -118,12 +239,13 @@ export default function Chat() {
       status: 'sending'
     };
 
-    const botMessage: Message = {
+    const botMessage: ChatMessage = {
       id: (Date.now() + 1).toString(),
       content: '',
       isBot: true,
       timestamp: new Date(),
-      status: 'typing'
+      status: 'typing',
+      suggestedFilter: translateQuery(input.trim(), institutions) ?? undefined
     };
 
     setMessages(prev => [...prev, userMessage, botMessage]);
@@ -135,6 +257,21 @@ export default function Chat() {
     abortControllerRef.current = new AbortController();
 
     try {
+      // A new conversation gets its own thread with its first message
+      if (!activeConversation) {
+        const thread = await assistantClient.current.createThread();
+        const title = userMessage.content.length > MAX_TITLE_LENGTH
+          ? `${userMessage.content.slice(0, MAX_TITLE_LENGTH - 1)}…`
+          : userMessage.content;
+        setActiveConversation({
+          id: Date.now().toString(),
+          title,
+          threadId: thread.id,
+          createdAt: userMessage.timestamp,
+          updatedAt: userMessage.timestamp
+        });
+      }
+
       // Update user message status to delivered
       setMessages(prev =>
         prev.map(msg =>
@@ -144,13 +281,41 @@ export default function Chat() {
         )
       );
 
-      // Query knowledge graph in parallel with the assistant
-      const knowledgeGraphPromise = graphRAGClient.current.queryKnowledgeGraph(input.trim());
+      // Retrieve from the knowledge graph first so the run can be grounded in it;
+      // follow-ups are rewritten into a standalone query using the earlier turns
+      const signal = abortControllerRef.current.signal;
+      let relevantNodes: NodeDetails[] = [];
+      let graphContext: string | undefined;
+      let cacheHit: CacheHit = null;
+      let rewrite: QueryRewrite | undefined;
+      try {
+        rewrite = await queryRewriter.current.rewrite(userMessage.content, conversationTurns(messages), signal);
+        ({ relevantNodes, context: graphContext, cacheHit } = await graphRAGClient.current.queryKnowledgeGraph(
+          rewrite.query,
+          {},
+          signal
+        ));
+      } catch (err) {
+        if (signal.aborted) {
+          throw new Error('Request cancelled');
+        }
+        console.error('Knowledge graph retrieval failed, answering without it:', err);
+      }
+
+      // Show the retrieved nodes while the answer streams in
+      setMessages(prev =>
+        prev.map(msg =>
+          msg.id === botMessage.id
+            ? { ...msg, knowledgeGraph: { relevantNodes, cacheHit, rewrite } }
+            : msg
+        )
+      );
 
-      // Start streaming the response
+      // Start streaming the response with the graph context as run instructions
       for await (const chunk of assistantClient.current.streamMessage(
         input.trim(),
-        abortControllerRef.current.signal
+        signal,
+        graphContext
       )) {
         setMessages(prev =>
           prev.map(msg =>
@@ -161,18 +326,10 @@ export default function Chat() {
         );
       }
 
-      // Get knowledge graph results
-      const { relevantNodes } = await knowledgeGraphPromise;
-
-      // Update bot message with knowledge graph data
       setMessages(prev =>
         prev.map(msg =>
           msg.id === botMessage.id
-            ? { 
-                ...msg, 
-                status: 'delivered',
-                knowledgeGraph: { relevantNodes }
-              }
+            ? { ...msg, status: 'delivered' }
             : msg
         )
       );
@@ -198,47 +355,75 @@ export default function Chat() {
     }
   };
 
-  const renderKnowledgeGraph = (message: Message) => {
-    if (!message.knowledgeGraph || !showKnowledgeGraph) return null;
+  const toggleNode = (messageId: string, nodeId: string) => {
+    const key = `${messageId}:${nodeId}`;
+    setExpandedNodes(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
 
-    return (
-      <div className="mt-4 border-t pt-4">
-        <div className="flex items-center gap-2 text-gray-600 mb-2">
-          <Database className="w-4 h-4" />
-          <span className="text-sm font-medium">Knowledge Graph</span>
-        </div>
-        <div className="space-y-3">
-          {message.knowledgeGraph.relevantNodes.map((node, index) => (
-            <div key={index} className="bg-gray-50 rounded p-3">
-              <div className="flex justify-between items-start mb-2">
-                <span className="font-medium text-gray-700">{node.label}</span>
-                <span className="text-xs text-gray-500">
-                  Similarity: {(node.similarity * 100).toFixed(1)}%
-                </span>
-              </div>
-              <div className="text-sm text-gray-600">
-                <div>Format: {node.format}</div>
-                <div>Type: {node.type}</div>
-              </div>
-              {node.relationships.length > 0 && (
-                <div className="mt-2">
-                  <div className="text-xs text-gray-500 mb-1">Relationships:</div>
-                  <div className="flex flex-wrap gap-2">
-                    {node.relationships.map((rel, relIndex) => (
-                      <span
-                        key={relIndex}
-                        className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded"
-                      >
-                        {rel.type} → {rel.target}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
+  // Opens the cited node's card and brings it into view
+  const focusCitation = (messageId: string, nodeId: string, index: number) => {
+    setShowKnowledgeGraph(true);
+    setExpandedNodes(prev => new Set(prev).add(`${messageId}:${nodeId}`));
+    requestAnimationFrame(() => {
+      document.getElementById(nodeCardId(messageId, index))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
+  const renderContent = (message: ChatMessage) => {
+    const nodes = message.knowledgeGraph?.relevantNodes;
+    if (!message.isBot || !nodes?.length) return message.content;
+
+    return splitCitations(message.content, nodes.length).map((segment, segmentIndex) =>
+      segment.type === 'text' ? (
+        <React.Fragment key={segmentIndex}>{segment.text}</React.Fragment>
+      ) : (
+        <span key={segmentIndex} className="inline-flex gap-1 mx-0.5 align-baseline">
+          {segment.indices.map(index => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => focusCitation(message.id, nodes[index].id, index)}
+              className="inline-flex items-center gap-1 text-xs bg-blue-100 text-blue-700 hover:bg-blue-200 px-1.5 rounded"
+              title={nodes[index].label}
+            >
+              {index + 1}
+              <span className="max-w-[8rem] truncate">{nodes[index].label}</span>
+            </button>
           ))}
-        </div>
-      </div>
+        </span>
+      )
+    );
+  };
+
+  const loadGraphNode = async (nodeId: string) =>
+    graphRAGClient.current ? graphRAGClient.current.describeNode(nodeId) : null;
+
+  const renderKnowledgeGraph = (message: ChatMessage) => {
+    const nodes = message.knowledgeGraph?.relevantNodes;
+    if (!nodes?.length || !showKnowledgeGraph) return null;
+
+    const prefix = `${message.id}:`;
+    const expandedNodeIds = [...expandedNodes]
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
+
+    return (
+      <KnowledgeGraphPanel
+        messageId={message.id}
+        nodes={nodes}
+        cacheHit={message.knowledgeGraph?.cacheHit ?? null}
+        rewrite={message.knowledgeGraph?.rewrite}
+        citedIndices={message.status === 'delivered' ? citedIndices(message.content, nodes.length) : null}
+        expandedNodeIds={expandedNodeIds}
+        onToggleNode={nodeId => toggleNode(message.id, nodeId)}
+        loadNode={loadGraphNode}
+        catalog={message.status === 'delivered' ? endpointCatalog : null}
+        states={message.suggestedFilter?.states}
+      />
     );
   };
 
@@ -254,123 +439,141 @@ export default function Chat() {
   }
 
   return (
-    <div className="flex flex-col h-[calc(100vh-48px)]">
-      <div className="bg-white border-b px-4 py-2 flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Bot className="w-5 h-5 text-blue-500" />
-          <span className="font-medium">{assistantName}</span>
-        </div>
-        <div className="flex items-center gap-4">
-          <button
-            onClick={() => setShowKnowledgeGraph(!showKnowledgeGraph)}
-            className="flex items-center gap-2 text-gray-600 hover:text-gray-800"
-            title={showKnowledgeGraph ? "Hide Knowledge Graph" : "Show Knowledge Graph"}
-          >
-            {showKnowledgeGraph ? (
-              <Eye className="w-4 h-4" />
-            ) : (
-              <EyeOff className="w-4 h-4" />
-            )}
-            <span className="text-sm">Knowledge Graph</span>
-          </button>
+    <div className="flex h-[calc(100vh-48px)]">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={activeConversation?.id ?? null}
+        disabled={isLoading}
+        onSelect={resumeConversation}
+        onNew={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+      />
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="bg-white border-b px-4 py-2 flex items-center justify-between">
           <div className="flex items-center gap-2">
-            {isConnected ? (
-              <Wifi className="w-4 h-4 text-green-500" />
-            ) : (
-              <WifiOff className="w-4 h-4 text-red-500" />
-            )}
-            <span className={`text-sm ${isConnected ? 'text-green-500' : 'text-red-500'}`}>
-              {isConnected ? 'Connected' : 'Disconnected'}
-            </span>
+            <Bot className="w-5 h-5 text-blue-500" />
+            <span className="font-medium">{assistantName}</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowKnowledgeGraph(!showKnowledgeGraph)}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-800"
+              title={showKnowledgeGraph ? "Hide Knowledge Graph" : "Show Knowledge Graph"}
+            >
+              {showKnowledgeGraph ? (
+                <Eye className="w-4 h-4" />
+              ) : (
+                <EyeOff className="w-4 h-4" />
+              )}
+              <span className="text-sm">Knowledge Graph</span>
+            </button>
+            <div className="flex items-center gap-2">
+              {isConnected ? (
+                <Wifi className="w-4 h-4 text-green-500" />
+              ) : (
+                <WifiOff className="w-4 h-4 text-red-500" />
+              )}
+              <span className={`text-sm ${isConnected ? 'text-green-500' : 'text-red-500'}`}>
+                {isConnected ? 'Connected' : 'Disconnected'}
+              </span>
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.isBot ? 'justify-start' : 'justify-end'}`}
-          >
-            <div className={`flex gap-3 max-w-[80%] ${
-              message.isBot ? 'flex-row' : 'flex-row-reverse'
-            }`}>
-              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
-                {message.isBot ? (
-                  <Bot className="w-5 h-5 text-blue-500" />
-                ) : (
-                  <User className="w-5 h-5 text-gray-500" />
-                )}
-              </div>
-              <div className={`rounded-lg p-4 ${
-                message.isBot
-                  ? 'bg-white border border-gray-200'
-                  : 'bg-blue-500 text-white'
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex ${message.isBot ? 'justify-start' : 'justify-end'}`}
+            >
+              <div className={`flex gap-3 max-w-[80%] ${
+                message.isBot ? 'flex-row' : 'flex-row-reverse'
               }`}>
-                <div className="whitespace-pre-wrap">
-                  {message.content}
-                  {message.status === 'typing' && (
-                    <span className="inline-block w-2 h-2 bg-current rounded-full animate-pulse ml-1" />
+                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                  {message.isBot ? (
+                    <Bot className="w-5 h-5 text-blue-500" />
+                  ) : (
+                    <User className="w-5 h-5 text-gray-500" />
                   )}
                 </div>
-                {message.status === 'failed' && (
-                  <div className="mt-2 flex items-center gap-2">
-                    <span className="text-sm text-red-300 flex items-center gap-1">
-                      <AlertCircle className="w-4 h-4" />
-                      Failed to generate
-                    </span>
-                    <button
-                      onClick={() => regenerateResponse(message.id)}
-                      className="text-sm text-blue-300 hover:text-blue-200 flex items-center gap-1"
-                    >
-                      Try again
-                    </button>
+                <div className={`rounded-lg p-4 ${
+                  message.isBot
+                    ? 'bg-white border border-gray-200'
+                    : 'bg-blue-500 text-white'
+                }`}>
+                  <div className="whitespace-pre-wrap">
+                    {renderContent(message)}
+                    {message.status === 'typing' && (
+                      <span className="inline-block w-2 h-2 bg-current rounded-full animate-pulse ml-1" />
+                    )}
                   </div>
+                  {message.status === 'failed' && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <span className="text-sm text-red-300 flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        Failed to generate
+                      </span>
+                      <button
+                        onClick={() => regenerateResponse(message.id)}
+                        className="text-sm text-blue-300 hover:text-blue-200 flex items-center gap-1"
+                      >
+                        Try again
+                      </button>
+                    </div>
+                  )}
+                  {message.isBot && message.suggestedFilter && message.status !== 'failed' && (
+                  <FilterSuggestion
+                    filter={message.suggestedFilter}
+                    institutions={institutions}
+                    onApply={onApplyFilter}
+                  />
                 )}
                 {message.isBot && renderKnowledgeGraph(message)}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
 
-      <div className="border-t bg-white p-4">
-        <form onSubmit={handleSubmit} className="flex gap-4">
-          <textarea
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type your message..."
-            className="flex-1 resize-none rounded-lg border border-gray-300 p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            rows={1}
-            disabled={isLoading}
-          />
-          <div className="flex gap-2">
-            {isLoading && (
+        <div className="border-t bg-white p-4">
+          <form onSubmit={handleSubmit} className="flex gap-4">
+            <textarea
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Type your message..."
+              className="flex-1 resize-none rounded-lg border border-gray-300 p-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              rows={1}
+              disabled={isLoading}
+            />
+            <div className="flex gap-2">
+              {isLoading && (
+                <button
+                  type="button"
+                  onClick={cancelRequest}
+                  className="bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600"
+                >
+                  <XCircle className="w-5 h-5" />
+                </button>
+              )}
               <button
-                type="button"
-                onClick={cancelRequest}
-                className="bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600"
+                type="submit"
+                disabled={isLoading || !input.trim()}
+                className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
               >
-                <XCircle className="w-5 h-5" />
+                {isLoading ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+                Send
               </button>
-            )}
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
-              Send
-            </button>
-          </div>
-        </form>
+            </div>
+          </form>
+        </div>
       </div>
     </div>
   );
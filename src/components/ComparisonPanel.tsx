@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import { Columns, Download, FileText, X } from 'lucide-react';
+import { Institution } from '../types/institution';
+import {
+  COMPARISON_COLORS,
+  COMPARISON_METRICS,
+  MAX_COMPARED,
+  comparisonCsv,
+  comparisonHtml,
+  formatMetricValue,
+  formatPercentile,
+  metricDistribution,
+  metricValue,
+  percentileRank
+} from '../utils/comparison';
+import { downloadFile } from '../utils/fileExport';
+
+interface ComparisonPanelProps {
+  /** Pinned institutions, in pin order */
+  institutions: Institution[];
+  /** Every institution the percentiles are taken over */
+  dataset: Institution[];
+  year: number | null;
+  onRemove: (institution: Institution) => void;
+  onClear: () => void;
+}
+
+export default function ComparisonPanel({ institutions, dataset, year, onRemove, onClear }: ComparisonPanelProps) {
+  const distributions = useMemo(
+    () => COMPARISON_METRICS.map(metric => ({ metric, distribution: metricDistribution(dataset, metric) })),
+    [dataset]
+  );
+
+  const exportCsv = () => downloadFile(comparisonCsv(institutions, dataset), 'institution_comparison.csv', 'text/csv');
+  const exportHtml = () =>
+    downloadFile(comparisonHtml(institutions, dataset, year), 'institution_comparison.html', 'text/html');
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg mb-4 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Columns className="w-5 h-5 text-blue-500" />
+          <h3 className="font-semibold">Compare</h3>
+          <span className="text-sm text-gray-500">
+            {institutions.length} of {MAX_COMPARED} pinned
+          </span>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <button onClick={exportCsv} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={exportHtml} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+            <FileText className="w-4 h-4" />
+            Printable HTML
+          </button>
+          <button onClick={onClear} className="text-gray-500 hover:text-gray-700">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="px-3 py-2 font-medium text-gray-500">Metric</th>
+              {institutions.map((institution, index) => (
+                <th key={institution.unitid} className="px-3 py-2">
+                  <div className="flex items-start gap-2">
+                    <span
+                      className="mt-1 w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: COMPARISON_COLORS[index] }}
+                    />
+                    <span>{institution.inst_name}</span>
+                    <button
+                      onClick={() => onRemove(institution)}
+                      className="ml-auto text-gray-400 hover:text-gray-600"
+                      title="Unpin"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+              <th className="px-3 py-2 w-1/3 font-medium text-gray-500">
+                Against all {dataset.length.toLocaleString()} schools
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {distributions.map(({ metric, distribution }) => (
+              <tr key={metric.id} className="border-t align-top">
+                <td className="px-3 py-2">
+                  <div className="text-xs text-gray-500">{metric.section}</div>
+                  <div className="font-medium">{metric.label}</div>
+                </td>
+                {institutions.map(institution => {
+                  const value = metricValue(institution, metric.id);
+                  return (
+                    <td key={institution.unitid} className="px-3 py-2">
+                      <div className="font-medium">{formatMetricValue(value, metric.format)}</div>
+                      {value !== null && distribution && (
+                        <div className="text-xs text-gray-500">{formatPercentile(percentileRank(distribution, value))}</div>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-3 py-2">
+                  {distribution ? (
+                    <>
+                      {/* Placed by percentile so skewed counts don't bunch up at one end */}
+                      <div className="relative h-2 my-1.5 rounded-full bg-gray-200">
+                        {institutions.map((institution, index) => {
+                          const value = metricValue(institution, metric.id);
+                          return value === null ? null : (
+                            <span
+                              key={institution.unitid}
+                              className="absolute -top-1 w-4 h-4 -ml-2 rounded-full border-2 border-white shadow"
+                              style={{
+                                left: `${percentileRank(distribution, value)}%`,
+                                backgroundColor: COMPARISON_COLORS[index]
+                              }}
+                              title={`${institution.inst_name}: ${formatMetricValue(value, metric.format)}`}
+                            />
+                          );
+                        })}
+                      </div>
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span>{formatMetricValue(distribution.min, metric.format)}</span>
+                        <span>median {formatMetricValue(distribution.median, metric.format)}</span>
+                        <span>{formatMetricValue(distribution.max, metric.format)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500">No data</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { MessageSquare, Pencil, Plus, Trash2, Check, X } from 'lucide-react';
+import { ConversationSummary } from '../types/conversation';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  /** Blocks switching while a response is streaming */
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 border-r bg-gray-50 flex flex-col">
+      <div className="p-3 border-b">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 bg-blue-500 text-white px-3 py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          New chat
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-4">No saved conversations</p>
+        )}
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group rounded-lg px-3 py-2 ${
+              conversation.id === activeId ? 'bg-blue-100' : 'hover:bg-gray-100'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center gap-1">
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1"
+                  autoFocus
+                />
+                <button onClick={commitRename} className="text-gray-500 hover:text-green-600" title="Save">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="text-gray-500 hover:text-gray-700" title="Cancel">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                >
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{conversation.title}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 ml-6">
+                    {conversation.updatedAt.toLocaleDateString()} · {conversation.messageCount} messages
+                  </div>
+                </button>
+                <div className="hidden group-hover:flex items-center gap-1">
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(conversation.id)}
+                    disabled={disabled && conversation.id === activeId}
+                    className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, ShieldCheck } from 'lucide-react';
+import { AuditRuleId, AuditValue, DataQualityReport } from '../types/dataQuality';
+import { AUDIT_RULES, summarizeReport } from '../utils/dataProcessing';
+import { downloadFile, toCsv } from '../utils/fileExport';
+
+// Entries shown per rule before "Show more"; exports always include all of them
+const PAGE_SIZE = 50;
+
+const formatValue = (value: AuditValue | undefined) =>
+  value === undefined ? '—' : value === null ? 'null' : String(value);
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+}
+
+export default function DataQualityPanel({ report }: DataQualityPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [openRule, setOpenRule] = useState<AuditRuleId | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const summary = summarizeReport(report);
+  const dropped = report.inputCount - report.outputCount;
+  const coerced = summary
+    .filter(rule => rule.action === 'coerced')
+    .reduce((total, rule) => total + rule.count, 0);
+  const openEntries = openRule ? report.entries.filter(entry => entry.rule === openRule) : [];
+
+  const toggleRule = (rule: AuditRuleId) => {
+    setOpenRule(current => (current === rule ? null : rule));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const exportCsv = () => {
+    const actions = new Map(AUDIT_RULES.map(rule => [rule.id, rule.action]));
+    const csv = toCsv(
+      ['rule', 'action', 'unitid', 'year', 'inst_name', 'field', 'before', 'after'],
+      report.entries.map(entry => [
+        entry.rule,
+        actions.get(entry.rule),
+        entry.unitid,
+        entry.year,
+        entry.instName,
+        entry.field,
+        formatValue(entry.before),
+        entry.after === undefined ? '' : formatValue(entry.after)
+      ])
+    );
+    downloadFile(csv, 'data_quality.csv', 'text/csv');
+  };
+
+  const exportJson = () => {
+    const json = JSON.stringify({ ...report, summary }, null, 2);
+    downloadFile(json, 'data_quality.json', 'application/json');
+  };
+
+  return (
+    <div className="bg-white shadow-lg rounded-lg mb-4">
+      <div className="flex items-center justify-between p-4">
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="flex items-center gap-2 text-sm text-gray-700"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <ShieldCheck className="w-4 h-4 text-green-600" />
+          <span className="font-medium">Data quality</span>
+          <span className="text-gray-500">
+            {report.inputCount.toLocaleString()} loaded · {report.outputCount.toLocaleString()} kept ·{' '}
+            {dropped.toLocaleString()} dropped · {coerced.toLocaleString()} values rewritten
+          </span>
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={exportCsv}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={exportJson}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="border-t px-4 pb-4">
+          {report.missingFields.length > 0 && (
+            <p className="pt-3 text-sm text-gray-600">
+              Not in the dataset, so empty for every institution:{' '}
+              {report.missingFields.map((field, index) => (
+                <span key={field}>
+                  {index > 0 && ', '}
+                  <code className="text-xs">{field}</code>
+                </span>
+              ))}
+            </p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 font-medium">Rule</th>
+                <th className="py-2 font-medium">Action</th>
+                <th className="py-2 font-medium text-right">Records</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map(rule => (
+                <tr
+                  key={rule.id}
+                  onClick={() => rule.count > 0 && toggleRule(rule.id)}
+                  className={`border-t ${rule.count > 0 ? 'cursor-pointer hover:bg-gray-50' : 'text-gray-400'} ${
+                    openRule === rule.id ? 'bg-gray-50' : ''
+                  }`}
+                >
+                  <td className="py-2">
+                    <code className="text-xs mr-2">{rule.id}</code>
+                    {rule.description}
+                  </td>
+                  <td className="py-2">
+                    <span className={`text-xs px-2 py-0.5 rounded ${
+                      rule.action === 'dropped' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+                    }`}>
+                      {rule.action}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right">{rule.count.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {openRule && (
+            <div className="mt-3 bg-gray-50 rounded p-3">
+              <table className="w-full text-xs text-gray-600">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-1 font-medium">unitid</th>
+                    <th className="pb-1 font-medium">Year</th>
+                    <th className="pb-1 font-medium">Institution</th>
+                    <th className="pb-1 font-medium">Field</th>
+                    <th className="pb-1 font-medium">Before</th>
+                    <th className="pb-1 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openEntries.slice(0, visibleCount).map((entry, index) => (
+                    <tr key={`${entry.unitid}-${entry.year}-${entry.field}-${index}`}>
+                      <td className="py-0.5">{entry.unitid ?? '—'}</td>
+                      <td className="py-0.5">{entry.year ?? '—'}</td>
+                      <td className="py-0.5">{entry.instName ?? '—'}</td>
+                      <td className="py-0.5"><code>{entry.field}</code></td>
+                      <td className="py-0.5">{formatValue(entry.before)}</td>
+                      <td className="py-0.5">{formatValue(entry.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {openEntries.length > visibleCount && (
+                <button
+                  onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                  className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Show more ({(openEntries.length - visibleCount).toLocaleString()} remaining)
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   useReactTable,
   getCoreRowModel,
@@ -8,15 +8,29 @@ import {
   ColumnDef,
   SortingState,
   ColumnFiltersState,
+  functionalUpdate,
 } from '@tanstack/react-table';
-import { ArrowUpDown, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowUpDown, Download, ChevronLeft, ChevronRight, Pin, PinOff } from 'lucide-react';
 import { Institution } from '../types/institution';
+import { CARNEGIE_CLASSIFICATIONS, carnegieLabel } from '../utils/carnegie';
+import { MAX_COMPARED } from '../utils/comparison';
+import { CsvValue, downloadFile, toCsv } from '../utils/fileExport';
 
 interface DataTableProps {
   data: Institution[];
   onRowHover: (institution: Institution | null) => void;
+  sorting: SortingState;
+  onSortingChange: (sorting: SortingState) => void;
+  /** Zero-based */
+  pageIndex: number;
+  onPageIndexChange: (pageIndex: number) => void;
+  /** Schools pinned for comparison; rows get a pin button when onTogglePin is given */
+  pinnedUnitids?: number[];
+  onTogglePin?: (institution: Institution) => void;
 }
 
+const PAGE_SIZE = 10;
+
 const formatNumber = (value: number | null): string => {
   if (value === null || isNaN(value)) return 'N/A';
   return value.toLocaleString();
@@ -32,8 +46,16 @@ const formatCurrency = (value: number | null): string => {
   return `$${value.toLocaleString()}`;
 };
 
-export default function DataTable({ data, onRowHover }: DataTableProps) {
-  const [sorting, setSorting] = useState<SortingState>([]);
+export default function DataTable({
+  data,
+  onRowHover,
+  sorting,
+  onSortingChange,
+  pageIndex,
+  onPageIndexChange,
+  pinnedUnitids = [],
+  onTogglePin
+}: DataTableProps) {
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [globalFilter, setGlobalFilter] = useState('');
 
@@ -62,6 +84,15 @@ export default function DataTable({ data, onRowHover }: DataTableProps) {
       header: 'Avg. Amount',
       cell: info => formatCurrency(info.getValue() as number),
     },
+    {
+      id: 'carnegie',
+      header: 'Carnegie Classification (2021)',
+      columns: CARNEGIE_CLASSIFICATIONS.map(({ field, shortLabel }) => ({
+        id: field,
+        header: shortLabel,
+        accessorFn: (inst: Institution) => carnegieLabel(field, inst[field]),
+      })),
+    },
   ], []);
 
   const table = useReactTable({
@@ -71,29 +102,42 @@ export default function DataTable({ data, onRowHover }: DataTableProps) {
       sorting,
       columnFilters,
       globalFilter,
+      pagination: { pageIndex, pageSize: PAGE_SIZE },
+    },
+    onSortingChange: updater => {
+      onSortingChange(functionalUpdate(updater, sorting));
+      onPageIndexChange(0);
     },
-    onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
-    onGlobalFilterChange: setGlobalFilter,
+    onGlobalFilterChange: value => {
+      setGlobalFilter(value);
+      onPageIndexChange(0);
+    },
+    onPaginationChange: updater => {
+      onPageIndexChange(functionalUpdate(updater, { pageIndex, pageSize: PAGE_SIZE }).pageIndex);
+    },
+    // The page is part of the link; the owner resets it when the rows change
+    autoResetPageIndex: false,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
   });
 
+  // A linked page past the end, e.g. after the data changed
+  const pageCount = table.getPageCount();
+  useEffect(() => {
+    if (pageIndex > 0 && pageIndex >= pageCount) onPageIndexChange(Math.max(pageCount - 1, 0));
+  }, [pageIndex, pageCount, onPageIndexChange]);
+
   const exportData = () => {
-    const headers = columns.map(col => String(col.header)).join(',');
-    const rows = data.map(row => 
-      columns.map(col => row[col.accessorKey as keyof Institution]).join(',')
-    ).join('\n');
-    const csv = `${headers}\n${rows}`;
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'institutions.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+    // Leaf columns, so grouped columns export one column each
+    const leafColumns = table.getAllLeafColumns();
+    const csv = toCsv(
+      leafColumns.map(col => String(col.columnDef.header)),
+      table.getCoreRowModel().rows.map(row => leafColumns.map(col => row.getValue(col.id) as CsvValue))
+    );
+    downloadFile(csv, 'institutions.csv', 'text/csv');
   };
 
   return (
@@ -120,13 +164,20 @@ export default function DataTable({ data, onRowHover }: DataTableProps) {
           <thead>
             {table.getHeaderGroups().map(headerGroup => (
               <tr key={headerGroup.id}>
+                {onTogglePin && headerGroup.depth === 0 && (
+                  <th rowSpan={table.getHeaderGroups().length} className="w-8" />
+                )}
                 {headerGroup.headers.map(header => (
-                  <th key={header.id} className="px-4 py-2 text-left">
-                    {header.isPlaceholder ? null : (
+                  <th key={header.id} colSpan={header.colSpan} className="px-4 py-2 text-left">
+                    {header.isPlaceholder ? null : header.column.getCanSort() ? (
                       <div className="flex items-center gap-1 cursor-pointer" onClick={() => header.column.toggleSorting()}>
                         {String(header.column.columnDef.header)}
                         <ArrowUpDown className="w-4 h-4" />
                       </div>
+                    ) : (
+                      <div className="text-center text-sm text-gray-500 border-b">
+                        {String(header.column.columnDef.header)}
+                      </div>
                     )}
                   </th>
                 ))}
@@ -141,6 +192,15 @@ export default function DataTable({ data, onRowHover }: DataTableProps) {
                 onMouseEnter={() => onRowHover(row.original)}
                 onMouseLeave={() => onRowHover(null)}
               >
+                {onTogglePin && (
+                  <td className="pl-4 py-2 border-t">
+                    <PinToggle
+                      pinned={pinnedUnitids.includes(row.original.unitid)}
+                      full={pinnedUnitids.length >= MAX_COMPARED}
+                      onClick={() => onTogglePin(row.original)}
+                    />
+                  </td>
+                )}
                 {row.getVisibleCells().map(cell => (
                   <td key={cell.id} className="px-4 py-2 border-t">
                     {cell.column.columnDef.cell?.(cell) ?? String(cell.getValue())}
@@ -184,4 +244,18 @@ export default function DataTable({ data, onRowHover }: DataTableProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function PinToggle({ pinned, full, onClick }: { pinned: boolean; full: boolean; onClick: () => void }) {
+  const Icon = pinned ? PinOff : Pin;
+  return (
+    <button
+      onClick={onClick}
+      disabled={!pinned && full}
+      title={pinned ? 'Unpin from comparison' : full ? `Compare up to ${MAX_COMPARED} schools` : 'Pin to compare'}
+      className={`disabled:opacity-30 ${pinned ? 'text-blue-600 hover:text-blue-800' : 'text-gray-400 hover:text-gray-600'}`}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+}
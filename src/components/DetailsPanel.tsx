@@ -1,12 +1,17 @@
 import { Institution } from '../types/institution';
 import { School } from 'lucide-react';
+import Sparkline from './Sparkline';
+import { TREND_METRICS, TrendMetricInfo, trendSeries, yearOverYear } from '../utils/institutionYears';
+import { CARNEGIE_CLASSIFICATIONS, carnegieLabel } from '../utils/carnegie';
 
 interface DetailsPanelProps {
   institution: Institution | null;
+  /** Every loaded year of the institution, oldest first */
+  history?: Institution[];
   averageMidIncome?: number;
 }
 
-export default function DetailsPanel({ institution, averageMidIncome = 0.33 }: DetailsPanelProps) {
+export default function DetailsPanel({ institution, history = [], averageMidIncome = 0.33 }: DetailsPanelProps) {
   if (!institution) {
     return (
       <div className="h-full flex items-center justify-center text-gray-500">
@@ -38,12 +43,55 @@ export default function DetailsPanel({ institution, averageMidIncome = 0.33 }: D
     return value.toString();
   };
 
+  const formatDelta = (delta: number, format: TrendMetricInfo['format']): string => {
+    const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+    const magnitude = Math.abs(delta);
+    if (format === 'percent') return `${sign}${(magnitude * 100).toFixed(1)} pts`;
+    if (format === 'currency') return `${sign}$${Math.round(magnitude).toLocaleString()}`;
+    return `${sign}${magnitude.toLocaleString()}`;
+  };
+
+  const formatMetric = (value: number | null, format: TrendMetricInfo['format']): string =>
+    format === 'percent' ? formatPercent(value) : format === 'currency' ? formatCurrency(value) : formatNumber(value);
+
   return (
     <div className="h-full overflow-y-auto p-6">
       <h2 className="text-2xl font-bold mb-6">{institution.inst_name}</h2>
       <div className="space-y-6">
         <Section title="Institution Details">
           <InfoRow label="School ID" value={formatString(institution.unitid)} />
+          <InfoRow label="Year" value={institution.year} />
+        </Section>
+
+        <Section title="Carnegie Classification (2021)">
+          {CARNEGIE_CLASSIFICATIONS.map(classification => (
+            <div key={classification.field}>
+              <div className="text-sm text-gray-500">{classification.label}</div>
+              <div className="font-medium">{carnegieLabel(classification.field, institution[classification.field])}</div>
+            </div>
+          ))}
+        </Section>
+
+        <Section title="Trends">
+          {history.length < 2 ? (
+            <p className="text-sm text-gray-500">Trends appear once more than one year is loaded.</p>
+          ) : (
+            TREND_METRICS.map(metric => {
+              const { value, previousYear, delta } = yearOverYear(history, institution.year, metric.id);
+              return (
+                <div key={metric.id} className="flex items-center justify-between gap-3">
+                  <span className="text-gray-600 flex-1">{metric.label}</span>
+                  <Sparkline points={trendSeries(history, metric.id)} highlightYear={institution.year} />
+                  <div className="text-right w-28">
+                    <div className="font-medium">{formatMetric(value, metric.format)}</div>
+                    <div className="text-xs text-gray-500">
+                      {delta === null ? 'No earlier year' : `${formatDelta(delta, metric.format)} vs ${previousYear}`}
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
         </Section>
 
         <Section title="Admission Statistics">
@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { Institution } from '../types/institution';
+import { CarnegieField } from '../types/carnegie';
+import { Combinator, FilterableField, FilterCondition, FilterGroup, FilterPreset, FilterTree } from '../types/institutionFilter';
+import { CARNEGIE_CLASSIFICATIONS, countByGroup } from '../utils/carnegie';
+import {
+  POVERTY_BANDS,
+  createCondition,
+  createGroup,
+  createTree,
+  hasPovertyRates,
+  isActiveCondition,
+  matchesCondition,
+  matchesGroup,
+  matchesTree
+} from '../utils/filterBuilder';
+import { FilterPresetStore } from '../utils/filterPresetStore';
+import { STATE_NAMES } from '../utils/geography';
+import { FILTER_FIELDS } from '../utils/queryFilter';
+import MultiSelectFilter from './MultiSelectFilter';
+
+const RANGE_FIELDS: FilterableField[] = [
+  'admit_rate',
+  'yield_rate',
+  'number_enrolled_total',
+  'sum_average_amount',
+  'percent_of_students',
+  'number_applied'
+];
+
+interface FilterBuilderProps {
+  /** Institutions the live match counts are taken over */
+  institutions: Institution[];
+  tree: FilterTree;
+  onChange: (tree: FilterTree) => void;
+}
+
+export default function FilterBuilder({ institutions, tree, onChange }: FilterBuilderProps) {
+  const presetStore = useRef(new FilterPresetStore());
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  const povertyAvailable = useMemo(() => hasPovertyRates(institutions), [institutions]);
+
+  const loadPresets = useCallback(() => {
+    presetStore.current.list()
+      .then(setPresets)
+      .catch(err => console.error('Failed to load filter presets:', err));
+  }, []);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      await presetStore.current.save({ name, tree, updatedAt: new Date() });
+      loadPresets();
+    } catch (err) {
+      console.error('Failed to save filter preset:', err);
+    }
+  };
+
+  const deletePreset = async () => {
+    try {
+      await presetStore.current.delete(presetName.trim());
+      setPresetName('');
+      loadPresets();
+    } catch (err) {
+      console.error('Failed to delete filter preset:', err);
+    }
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(candidate => candidate.name === name);
+    if (preset) {
+      setPresetName(preset.name);
+      onChange(preset.tree);
+    }
+  };
+
+  const updateGroup = (groupId: string, update: (group: FilterGroup) => FilterGroup) => {
+    onChange({ ...tree, groups: tree.groups.map(group => (group.id === groupId ? update(group) : group)) });
+  };
+
+  const updateCondition = (groupId: string, condition: FilterCondition) => {
+    updateGroup(groupId, group => ({
+      ...group,
+      conditions: group.conditions.map(candidate => (candidate.id === condition.id ? condition : candidate))
+    }));
+  };
+
+  const counts = useMemo(() => ({
+    total: institutions.filter(matchesTree(tree)).length,
+    groups: new Map(tree.groups.map(group => [group.id, institutions.filter(matchesGroup(group)).length])),
+    conditions: new Map(tree.groups.flatMap(group => group.conditions).map(condition =>
+      [condition.id, institutions.filter(matchesCondition(condition)).length]
+    ))
+  }), [institutions, tree]);
+
+  const savedPreset = presets.some(preset => preset.name === presetName.trim());
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={savedPreset ? presetName.trim() : ''}
+          onChange={e => applyPreset(e.target.value)}
+          className="border rounded-lg p-2"
+        >
+          <option value="">{presets.length > 0 ? 'Load preset…' : 'No saved presets'}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          value={presetName}
+          onChange={e => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="border rounded-lg p-2 w-48"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {savedPreset ? 'Update' : 'Save'}
+        </button>
+        {savedPreset && (
+          <button
+            onClick={deletePreset}
+            className="flex items-center gap-1 text-gray-500 hover:text-red-600"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        )}
+        <span className="ml-auto text-gray-600">
+          <span className="font-medium">{counts.total.toLocaleString()}</span> of {institutions.length.toLocaleString()} match
+        </span>
+      </div>
+
+      {tree.groups.length > 1 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          Match
+          <CombinatorToggle value={tree.combinator} onChange={combinator => onChange({ ...tree, combinator })} />
+          of these groups
+        </div>
+      )}
+
+      {tree.groups.map(group => (
+        <div key={group.id} className="bg-gray-50 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            Match
+            <CombinatorToggle
+              value={group.combinator}
+              onChange={combinator => updateGroup(group.id, prev => ({ ...prev, combinator }))}
+            />
+            of
+            <span className="ml-auto">{counts.groups.get(group.id)?.toLocaleString()} match</span>
+            {tree.groups.length > 1 && (
+              <button
+                onClick={() => onChange({ ...tree, groups: tree.groups.filter(candidate => candidate.id !== group.id) })}
+                className="text-gray-400 hover:text-gray-600"
+                title="Remove group"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {group.conditions.map(condition => (
+            <div key={condition.id} className="flex flex-wrap items-center gap-2 bg-white rounded p-2 text-sm">
+              <ConditionEditor
+                condition={condition}
+                institutions={institutions}
+                povertyAvailable={povertyAvailable}
+                onChange={updated => updateCondition(group.id, updated)}
+              />
+              <span className="ml-auto text-gray-500">
+                {isActiveCondition(condition) ? counts.conditions.get(condition.id)?.toLocaleString() : '—'}
+              </span>
+              <button
+                onClick={() => updateGroup(group.id, prev => ({
+                  ...prev,
+                  conditions: prev.conditions.filter(candidate => candidate.id !== condition.id)
+                }))}
+                className="text-gray-400 hover:text-gray-600"
+                title="Remove condition"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <label className="flex items-center gap-1 text-sm text-blue-600">
+            <Plus className="w-4 h-4" />
+            <select
+              value=""
+              onChange={e => {
+                if (!e.target.value) return;
+                const [kind, field] = e.target.value.split(':') as [FilterCondition['kind'], FilterableField?];
+                updateGroup(group.id, prev => ({ ...prev, conditions: [...prev.conditions, createCondition(kind, field)] }));
+              }}
+              className="bg-transparent"
+            >
+              <option value="">Add condition</option>
+              {RANGE_FIELDS.map(field => (
+                <option key={field} value={`range:${field}`}>{FILTER_FIELDS[field].label}</option>
+              ))}
+              <option value="state">State</option>
+              <option value="carnegie">Carnegie classification</option>
+              <option value="poverty" disabled={!povertyAvailable}>
+                Home-ZIP poverty rate{povertyAvailable ? '' : ' (no data)'}
+              </option>
+            </select>
+          </label>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-4 text-sm">
+        <button
+          onClick={() => onChange({ ...tree, groups: [...tree.groups, createGroup()] })}
+          className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4" />
+          Add group
+        </button>
+        <button
+          onClick={() => {
+            setPresetName('');
+            onChange(createTree());
+          }}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CombinatorToggle({ value, onChange }: { value: Combinator; onChange: (value: Combinator) => void }) {
+  return (
+    <div className="flex rounded border overflow-hidden">
+      {(['and', 'or'] as const).map(combinator => (
+        <button
+          key={combinator}
+          onClick={() => onChange(combinator)}
+          className={`px-2 py-0.5 text-xs ${
+            value === combinator ? 'bg-blue-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {combinator === 'and' ? 'all (AND)' : 'any (OR)'}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ConditionEditorProps {
+  condition: FilterCondition;
+  institutions: Institution[];
+  /** False when no institution has a home-ZIP poverty rate, so poverty bands can't match */
+  povertyAvailable: boolean;
+  onChange: (condition: FilterCondition) => void;
+}
+
+function ConditionEditor({ condition, institutions, povertyAvailable, onChange }: ConditionEditorProps) {
+  switch (condition.kind) {
+    case 'range': {
+      const percent = FILTER_FIELDS[condition.field].format === 'percent';
+      // Rates are stored as fractions but typed as percentages
+      const toInput = (value: number | undefined) =>
+        value === undefined ? '' : String(percent ? Number((value * 100).toFixed(4)) : value);
+      const fromInput = (text: string) =>
+        text.trim() === '' || isNaN(Number(text)) ? undefined : percent ? Number(text) / 100 : Number(text);
+      const bound = (key: 'min' | 'max', placeholder: string) => (
+        <input
+          type="number"
+          value={toInput(condition.range[key])}
+          onChange={e => onChange({ ...condition, range: { ...condition.range, [key]: fromInput(e.target.value) } })}
+          placeholder={placeholder}
+          className="border rounded p-1 w-24"
+        />
+      );
+      return (
+        <>
+          <select
+            value={condition.field}
+            onChange={e => onChange({ ...condition, field: e.target.value as FilterableField, range: {} })}
+            className="border rounded p-1"
+          >
+            {RANGE_FIELDS.map(field => (
+              <option key={field} value={field}>{FILTER_FIELDS[field].label}</option>
+            ))}
+          </select>
+          between {bound('min', 'min')} and {bound('max', 'max')}
+          {percent && <span className="text-gray-500">%</span>}
+        </>
+      );
+    }
+    case 'state': {
+      const options = Object.entries(STATE_NAMES)
+        .map(([abbr, name]) => ({
+          id: abbr,
+          label: name,
+          count: institutions.filter(inst => inst.state_abbr === abbr).length
+        }))
+        .filter(option => option.count > 0)
+        .sort((a, b) => a.label.localeCompare(b.label));
+      return (
+        <>
+          <span className="text-gray-600">State is</span>
+          <MultiSelectFilter
+            label="States"
+            options={options}
+            selected={condition.states}
+            onChange={states => onChange({ ...condition, states })}
+          />
+        </>
+      );
+    }
+    case 'carnegie':
+      return (
+        <>
+          <select
+            value={condition.field}
+            onChange={e => onChange({ ...condition, field: e.target.value as CarnegieField, groups: [] })}
+            className="border rounded p-1"
+          >
+            {CARNEGIE_CLASSIFICATIONS.map(classification => (
+              <option key={classification.field} value={classification.field}>{classification.label}</option>
+            ))}
+          </select>
+          <span className="text-gray-600">is</span>
+          <MultiSelectFilter
+            label="Groups"
+            options={countByGroup(institutions, condition.field).filter(option => option.count > 0)}
+            selected={condition.groups}
+            onChange={groups => onChange({ ...condition, groups })}
+          />
+        </>
+      );
+    case 'poverty': {
+      const options = POVERTY_BANDS.map(band => ({
+        id: band.id,
+        label: band.label,
+        count: institutions.filter(matchesCondition({ ...condition, bands: [band.id] })).length
+      }));
+      return (
+        <>
+          <span className="text-gray-600">Home-ZIP poverty rate is</span>
+          <MultiSelectFilter
+            label="Bands"
+            options={options}
+            selected={condition.bands}
+            onChange={bands => onChange({ ...condition, bands: bands as typeof condition.bands })}
+          />
+          {!povertyAvailable && (
+            <span className="text-amber-700">Unavailable: this year has no home-ZIP poverty rates, so nothing matches</span>
+          )}
+        </>
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { Filter, MapPin } from 'lucide-react';
+import { Institution } from '../types/institution';
+import { InstitutionFilter } from '../types/institutionFilter';
+import { describeFilter, matchesFilter } from '../utils/queryFilter';
+
+interface FilterSuggestionProps {
+  filter: InstitutionFilter;
+  institutions: Institution[];
+  onApply: (filter: InstitutionFilter) => void;
+}
+
+export default function FilterSuggestion({ filter, institutions, onApply }: FilterSuggestionProps) {
+  const matchCount = institutions.filter(matchesFilter(filter)).length;
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <div className="flex items-center gap-2 text-gray-600 mb-2">
+        <Filter className="w-4 h-4" />
+        <span className="text-sm font-medium">Filter from your question</span>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {describeFilter(filter).map(part => (
+          <span key={part} className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded">
+            {part}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm text-gray-600">
+          {matchCount} matching institution{matchCount === 1 ? '' : 's'}
+        </span>
+        <button
+          onClick={() => onApply(filter)}
+          disabled={matchCount === 0}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <MapPin className="w-4 h-4" />
+          Show in Colleges
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Code, Database, List, Search, Share2, Zap } from 'lucide-react';
+import { CacheHit, NodeDetails, QueryRewrite } from '../types/knowledgeGraph';
+import { draftRequests } from '../utils/apiRequest';
+import { nodeCardId } from '../utils/citations';
+import { EndpointCatalog } from '../utils/endpointCatalog';
+import KnowledgeGraphView from './KnowledgeGraphView';
+import ApiRequestBuilder from './ApiRequestBuilder';
+
+const MAX_VISIBLE_RELATIONSHIPS = 6;
+const MAX_VISIBLE_VALUES = 8;
+
+interface KnowledgeGraphPanelProps {
+  messageId: string;
+  nodes: NodeDetails[];
+  cacheHit: CacheHit;
+  /** Shown when retrieval ran on a rewritten follow-up rather than the question as typed */
+  rewrite?: QueryRewrite;
+  /** 0-based indices of cited nodes; null while the answer is still streaming */
+  citedIndices: Set<number> | null;
+  expandedNodeIds: string[];
+  onToggleNode: (nodeId: string) => void;
+  loadNode: (nodeId: string) => Promise<NodeDetails | null>;
+  /** Enables the API request action once loaded */
+  catalog: EndpointCatalog | null;
+  /** States named in the question, drafted as a FIPS filter */
+  states?: string[];
+}
+
+export default function KnowledgeGraphPanel({
+  messageId,
+  nodes,
+  cacheHit,
+  rewrite,
+  citedIndices,
+  expandedNodeIds,
+  onToggleNode,
+  loadNode,
+  catalog,
+  states
+}: KnowledgeGraphPanelProps) {
+  const [view, setView] = useState<'list' | 'graph'>('list');
+  const [showRequest, setShowRequest] = useState(false);
+  const drafts = catalog ? draftRequests(nodes, catalog, states) : [];
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <div className="flex items-center justify-between text-gray-600 mb-2">
+        <div className="flex items-center gap-2">
+          <Database className="w-4 h-4" />
+          <span className="text-sm font-medium">Knowledge Graph</span>
+          {cacheHit && (
+            <span
+              className="flex items-center gap-1 text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded"
+              title={cacheHit === 'retrieval'
+                ? 'Retrieved nodes came from the cache'
+                : 'Query embedding came from the cache'}
+            >
+              <Zap className="w-3 h-3" />
+              {cacheHit === 'retrieval' ? 'Cached' : 'Cached embedding'}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {citedIndices && (
+            <span className="text-xs text-gray-500">
+              Cited {citedIndices.size} of {nodes.length} nodes
+            </span>
+          )}
+          <div className="flex rounded border overflow-hidden">
+            <button
+              onClick={() => setView('list')}
+              className={`p-1 ${view === 'list' ? 'bg-gray-200 text-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="List view"
+            >
+              <List className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setView('graph')}
+              className={`p-1 ${view === 'graph' ? 'bg-gray-200 text-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Graph view"
+            >
+              <Share2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+      {rewrite && rewrite.method !== 'unchanged' && (
+        <div className="flex items-start gap-2 text-xs text-gray-500 mb-2" title={`You asked: ${rewrite.original}`}>
+          <Search className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>
+            Searched for <span className="text-gray-700">“{rewrite.query}”</span>
+            {rewrite.method === 'rules' ? ' (rewritten by rules)' : ' (rewritten from the conversation)'}
+          </span>
+        </div>
+      )}
+      {view === 'graph' ? (
+        <KnowledgeGraphView nodes={nodes} loadNode={loadNode} />
+      ) : (
+        <div className="space-y-2">
+          {nodes.map((node, index) => {
+            const expanded = expandedNodeIds.includes(node.id);
+            const unused = citedIndices !== null && !citedIndices.has(index);
+
+            return (
+              <div
+                key={node.id}
+                id={nodeCardId(messageId, index)}
+                className={`rounded p-3 ${unused ? 'bg-gray-50 opacity-60' : 'bg-gray-50'}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onToggleNode(node.id)}
+                  className="w-full flex justify-between items-start gap-2 text-left"
+                >
+                  <span className="flex items-center gap-2 font-medium text-gray-700">
+                    {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <span className="text-xs bg-blue-100 text-blue-700 px-1.5 rounded">{index + 1}</span>
+                    {node.label}
+                    {node.exactMatch && (
+                      <span className="text-xs font-normal bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                        Exact match
+                      </span>
+                    )}
+                    {unused && (
+                      <span className="text-xs font-normal bg-gray-200 text-gray-600 px-2 py-0.5 rounded">
+                        Unused context
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {node.via
+                      ? `Score: ${(node.score * 100).toFixed(1)}% · ${node.hops} hop${node.hops === 1 ? '' : 's'}`
+                      : `Similarity: ${(node.similarity * 100).toFixed(1)}%`}
+                  </span>
+                </button>
+
+                {expanded && (
+                  <div className="mt-2">
+                    {node.via && (
+                      <div className="text-xs text-gray-500 mb-2 font-mono break-words">
+                        {node.via.description}
+                      </div>
+                    )}
+                    {node.description && (
+                      <p className="text-sm text-gray-700 mb-2">{node.description}</p>
+                    )}
+                    <div className="text-sm text-gray-600">
+                      <div className="capitalize">Type: {node.type}</div>
+                      {node.type === 'variable' && <div>Format: {node.format}</div>}
+                      {node.years && <div>Years: {node.years.start}–{node.years.end}</div>}
+                      {node.endpoint && <div>Endpoint: <code className="text-xs">{node.endpoint}</code></div>}
+                      {node.path && <div>Path: <code className="text-xs">{node.path}</code></div>}
+                    </div>
+                    {node.values && (
+                      <div className="mt-2">
+                        <div className="text-xs text-gray-500 mb-1">Values:</div>
+                        <ul className="text-xs text-gray-600 space-y-0.5">
+                          {Object.entries(node.values).slice(0, MAX_VISIBLE_VALUES).map(([code, meaning]) => (
+                            <li key={code}>
+                              <code className="text-gray-800">{code}</code> {meaning}
+                            </li>
+                          ))}
+                          {Object.keys(node.values).length > MAX_VISIBLE_VALUES && (
+                            <li className="text-gray-500">
+                              +{Object.keys(node.values).length - MAX_VISIBLE_VALUES} more
+                            </li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                    {node.relationships.length > 0 && (
+                      <div className="mt-2">
+                        <div className="text-xs text-gray-500 mb-1">Relationships:</div>
+                        <div className="flex flex-wrap gap-2">
+                          {node.relationships.slice(0, MAX_VISIBLE_RELATIONSHIPS).map((rel, relIndex) => (
+                            <span
+                              key={relIndex}
+                              className={`text-xs px-2 py-1 rounded ${
+                                rel.direction === 'out'
+                                  ? 'bg-blue-100 text-blue-700'
+                                  : 'bg-gray-200 text-gray-700'
+                              }`}
+                              title={`${rel.targetKind}: ${rel.target}`}
+                            >
+                              {rel.direction === 'out'
+                                ? `${rel.type} → ${rel.targetLabel}`
+                                : `${rel.type} ← ${rel.targetLabel}`}
+                            </span>
+                          ))}
+                          {node.relationships.length > MAX_VISIBLE_RELATIONSHIPS && (
+                            <span className="text-xs text-gray-500 px-2 py-1">
+                              +{node.relationships.length - MAX_VISIBLE_RELATIONSHIPS} more
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {catalog && drafts.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowRequest(prev => !prev)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Code className="w-4 h-4" />
+            {showRequest ? 'Hide API request' : 'Build API request'}
+          </button>
+          {showRequest && <ApiRequestBuilder catalog={catalog} drafts={drafts} />}
+        </div>
+      )}
+    </div>
+  );
+}
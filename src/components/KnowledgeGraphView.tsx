@@ -0,0 +1,283 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Loader2, Maximize2, Plus, ZoomIn, ZoomOut } from 'lucide-react';
+import { NodeDetails, NodeKind } from '../types/knowledgeGraph';
+import { forceLayout, LayoutLink, Point } from '../utils/forceLayout';
+
+const WIDTH = 600;
+const HEIGHT = 360;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 4;
+
+const KIND_COLORS: { [kind in NodeKind]: string } = {
+  variable: '#3b82f6',
+  endpoint: '#8b5cf6',
+  source: '#10b981',
+  topic: '#f59e0b'
+};
+
+interface GraphLink extends LayoutLink {
+  type: string;
+}
+
+interface KnowledgeGraphViewProps {
+  nodes: NodeDetails[];
+  /** Fetches a node outside the retrieved set when a neighbor is expanded */
+  loadNode: (nodeId: string) => Promise<NodeDetails | null>;
+}
+
+// Similarity drives the radius; nodes added by expansion have none and stay small
+const nodeRadius = (node: NodeDetails) => 6 + 14 * Math.max(node.similarity, 0);
+
+export default function KnowledgeGraphView({ nodes, loadNode }: KnowledgeGraphViewProps) {
+  const [addedNodes, setAddedNodes] = useState<NodeDetails[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expandingId, setExpandingId] = useState<string | null>(null);
+  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
+
+  // Several views can be on screen at once, so marker ids must be unique
+  const markerId = `kg-arrow-${useId().replace(/:/g, '')}`;
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const positionsRef = useRef<Map<string, Point>>(new Map());
+
+  const allNodes = useMemo(() => {
+    const retrievedIds = new Set(nodes.map(node => node.id));
+    return [...nodes, ...addedNodes.filter(node => !retrievedIds.has(node.id))];
+  }, [nodes, addedNodes]);
+
+  // Edges are recorded on both ends, so collect each one once
+  const links = useMemo(() => {
+    const ids = new Set(allNodes.map(node => node.id));
+    const byKey = new Map<string, GraphLink>();
+    allNodes.forEach(node => {
+      node.relationships.forEach(rel => {
+        if (!ids.has(rel.target)) return;
+        const [source, target] = rel.direction === 'out' ? [node.id, rel.target] : [rel.target, node.id];
+        byKey.set(`${source}|${rel.type}|${target}`, { source, target, type: rel.type });
+      });
+    });
+    return Array.from(byKey.values());
+  }, [allNodes]);
+
+  const positions = useMemo(() => {
+    const radii = new Map(allNodes.map(node => [node.id, nodeRadius(node)]));
+    const layout = forceLayout(allNodes.map(node => node.id), links, {
+      width: WIDTH,
+      height: HEIGHT,
+      initial: positionsRef.current,
+      nodeRadius: id => radii.get(id) ?? 0
+    });
+    positionsRef.current = layout;
+    return layout;
+  }, [allNodes, links]);
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+      setTransform(prev => ({
+        ...prev,
+        scale: Math.min(Math.max(prev.scale * factor, MIN_SCALE), MAX_SCALE)
+      }));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoom = (factor: number) =>
+    setTransform(prev => ({ ...prev, scale: Math.min(Math.max(prev.scale * factor, MIN_SCALE), MAX_SCALE) }));
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!dragRef.current || !svgRef.current) return;
+    // Mouse deltas are in screen pixels; the transform is in viewBox units
+    const ratio = WIDTH / (svgRef.current.getBoundingClientRect().width || WIDTH);
+    const dx = (event.clientX - dragRef.current.x) * ratio;
+    const dy = (event.clientY - dragRef.current.y) * ratio;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    setTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const stopDragging = () => {
+    dragRef.current = null;
+  };
+
+  const expandNode = async (node: NodeDetails) => {
+    const shown = new Set(allNodes.map(n => n.id));
+    const missing = Array.from(new Set(node.relationships.map(rel => rel.target))).filter(id => !shown.has(id));
+    if (missing.length === 0) return;
+
+    setExpandingId(node.id);
+    try {
+      const loaded = await Promise.all(missing.map(id => loadNode(id)));
+      setAddedNodes(prev => [...prev, ...loaded.filter((n): n is NodeDetails => n !== null)]);
+    } catch (err) {
+      console.error('Failed to expand node:', err);
+    } finally {
+      setExpandingId(null);
+    }
+  };
+
+  const selected = allNodes.find(node => node.id === selectedId) || null;
+  const retrievedIds = new Set(nodes.map(node => node.id));
+  const center = { x: WIDTH / 2, y: HEIGHT / 2 };
+
+  return (
+    <div>
+      <div className="relative border rounded bg-gray-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-80 cursor-grab active:cursor-grabbing select-none"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={stopDragging}
+          onMouseLeave={stopDragging}
+        >
+          <defs>
+            <marker id={markerId} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          <g
+            transform={`translate(${transform.x} ${transform.y}) translate(${center.x} ${center.y}) scale(${transform.scale}) translate(${-center.x} ${-center.y})`}
+          >
+            {links.map(link => {
+              const source = positions.get(link.source);
+              const target = positions.get(link.target);
+              const targetNode = allNodes.find(node => node.id === link.target);
+              if (!source || !target || !targetNode) return null;
+
+              // Stop the line at the target's edge so the arrowhead stays visible
+              const dx = target.x - source.x;
+              const dy = target.y - source.y;
+              const length = Math.sqrt(dx * dx + dy * dy) || 1;
+              const offset = nodeRadius(targetNode) + 2;
+              const end = { x: target.x - (dx / length) * offset, y: target.y - (dy / length) * offset };
+
+              return (
+                <g key={`${link.source}|${link.type}|${link.target}`}>
+                  <line
+                    x1={source.x}
+                    y1={source.y}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke="#9ca3af"
+                    strokeWidth={1}
+                    markerEnd={`url(#${markerId})`}
+                  />
+                  <text
+                    x={(source.x + target.x) / 2}
+                    y={(source.y + target.y) / 2 - 3}
+                    textAnchor="middle"
+                    className="fill-gray-500"
+                    fontSize={7}
+                  >
+                    {link.type}
+                  </text>
+                </g>
+              );
+            })}
+            {allNodes.map(node => {
+              const position = positions.get(node.id);
+              if (!position) return null;
+              const radius = nodeRadius(node);
+
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${position.x} ${position.y})`}
+                  className="cursor-pointer"
+                  onMouseDown={(event) => event.stopPropagation()}
+                  onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+                >
+                  <circle
+                    r={radius}
+                    fill={KIND_COLORS[node.type]}
+                    fillOpacity={retrievedIds.has(node.id) ? 0.9 : 0.4}
+                    stroke={node.id === selectedId ? '#111827' : '#ffffff'}
+                    strokeWidth={node.id === selectedId ? 2 : 1}
+                    strokeDasharray={retrievedIds.has(node.id) ? undefined : '3 2'}
+                  />
+                  <text y={radius + 9} textAnchor="middle" fontSize={8} className="fill-gray-700">
+                    {node.label.length > 24 ? `${node.label.slice(0, 23)}…` : node.label}
+                  </text>
+                  <title>{`${node.label} (${node.type})`}</title>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          <button onClick={() => zoom(1.2)} className="bg-white border rounded p-1 hover:bg-gray-100" title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoom(1 / 1.2)} className="bg-white border rounded p-1 hover:bg-gray-100" title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setTransform({ x: 0, y: 0, scale: 1 })}
+            className="bg-white border rounded p-1 hover:bg-gray-100"
+            title="Reset view"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="absolute bottom-2 left-2 flex flex-wrap gap-2 text-xs text-gray-600 bg-white/80 rounded px-2 py-1">
+          {(Object.keys(KIND_COLORS) as NodeKind[]).map(kind => (
+            <span key={kind} className="flex items-center gap-1 capitalize">
+              <span className="w-2 h-2 rounded-full inline-block" style={{ backgroundColor: KIND_COLORS[kind] }} />
+              {kind}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="mt-2 bg-gray-50 rounded p-3 text-sm text-gray-600">
+          <div className="flex justify-between items-start gap-2">
+            <span className="font-medium text-gray-700">{selected.label}</span>
+            <button
+              onClick={() => expandNode(selected)}
+              disabled={expandingId !== null}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              {expandingId === selected.id ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Plus className="w-3 h-3" />
+              )}
+              Expand neighbors
+            </button>
+          </div>
+          {selected.description && <p className="text-gray-700 mb-1">{selected.description}</p>}
+          <div className="capitalize">Type: {selected.type}</div>
+          <div>ID: <code className="text-xs">{selected.id}</code></div>
+          {selected.type === 'variable' && <div>Format: {selected.format}</div>}
+          {selected.years && <div>Years: {selected.years.start}–{selected.years.end}</div>}
+          {selected.path && <div>Path: <code className="text-xs">{selected.path}</code></div>}
+          {retrievedIds.has(selected.id) ? (
+            <div>
+              {selected.via
+                ? `Score: ${(selected.score * 100).toFixed(1)}% · ${selected.hops} hop${selected.hops === 1 ? '' : 's'}`
+                : `Similarity: ${(selected.similarity * 100).toFixed(1)}%`}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">Added by expansion, not retrieved</div>
+          )}
+          <div className="text-xs text-gray-500 mt-1">{selected.relationships.length} relationships</div>
+        </div>
+      )}
+    </div>
+  );
+}
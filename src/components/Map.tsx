@@ -1,7 +1,11 @@
-import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, ZoomControl, useMap } from 'react-leaflet';
+import { useEffect, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, ZoomControl, useMap, useMapEvents } from 'react-leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import { Institution } from '../types/institution';
+import { MapViewport } from '../types/urlState';
+import { carnegieLabel } from '../utils/carnegie';
+import { MAX_COMPARED } from '../utils/comparison';
+import { roundViewport } from '../utils/urlState';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -9,13 +13,27 @@ interface MarkerLayerProps {
   institutions: Institution[];
   onInstitutionSelect: (institution: Institution) => void;
   onViewDetails: (institution: Institution) => void;
+  /** Keep the view the map opened with instead of fitting these institutions */
+  keepInitialView: boolean;
+  pinnedUnitids: number[];
+  onTogglePin?: (institution: Institution) => void;
 }
 
-function MarkerLayer({ institutions, onInstitutionSelect, onViewDetails }: MarkerLayerProps) {
+function MarkerLayer({
+  institutions,
+  onInstitutionSelect,
+  onViewDetails,
+  keepInitialView,
+  pinnedUnitids,
+  onTogglePin
+}: MarkerLayerProps) {
   const map = useMap();
+  // Tracks the list by identity so StrictMode's repeated effect doesn't fit the map anyway
+  const fitted = useRef(keepInitialView ? institutions : null);
 
   useEffect(() => {
-    if (institutions.length > 0) {
+    if (institutions.length > 0 && institutions !== fitted.current) {
+      fitted.current = institutions;
       const bounds = L.latLngBounds(
         institutions.map(inst => [inst.latitude, inst.longitude])
       );
@@ -51,7 +69,11 @@ function MarkerLayer({ institutions, onInstitutionSelect, onViewDetails }: Marke
           <Popup className="custom-popup" maxWidth={400} autoPan={false}>
             <div className="p-2">
               <h3 className="font-bold text-lg mb-1">{institution.inst_name}</h3>
-              <p className="text-gray-600 text-sm mb-3">{institution.inst_alias}</p>
+              <p className="text-gray-600 text-sm mb-1">{institution.inst_alias}</p>
+              <p className="text-gray-500 text-xs mb-3">
+                {carnegieLabel('cc_basic_2021', institution.cc_basic_2021)} ·{' '}
+                {carnegieLabel('cc_size_setting_2021', institution.cc_size_setting_2021)}
+              </p>
               
               <div className="space-y-4">
                 <Section title="Admission Statistics">
@@ -79,6 +101,13 @@ function MarkerLayer({ institutions, onInstitutionSelect, onViewDetails }: Marke
               >
                 View Full Details
               </button>
+              {onTogglePin && (
+                <PinButton
+                  pinned={pinnedUnitids.includes(institution.unitid)}
+                  full={pinnedUnitids.length >= MAX_COMPARED}
+                  onClick={() => onTogglePin(institution)}
+                />
+              )}
             </div>
           </Popup>
         </Marker>
@@ -87,6 +116,49 @@ function MarkerLayer({ institutions, onInstitutionSelect, onViewDetails }: Marke
   );
 }
 
+interface ViewportSyncProps {
+  viewport: MapViewport | null;
+  onViewportChange: (viewport: MapViewport) => void;
+}
+
+const currentViewport = (map: L.Map): MapViewport => {
+  const { lat, lng } = map.getCenter();
+  return roundViewport({ lat, lng, zoom: map.getZoom() });
+};
+
+/** Reports where the map was moved to, and moves it when the viewport is changed from outside (back/forward) */
+function ViewportSync({ viewport, onViewportChange }: ViewportSyncProps) {
+  const map = useMapEvents({
+    moveend: () => onViewportChange(currentViewport(map))
+  });
+
+  useEffect(() => {
+    if (!viewport) return;
+    const current = currentViewport(map);
+    if (current.lat !== viewport.lat || current.lng !== viewport.lng || current.zoom !== viewport.zoom) {
+      map.setView([viewport.lat, viewport.lng], viewport.zoom);
+    }
+  }, [viewport, map]);
+
+  return null;
+}
+
+function PinButton({ pinned, full, onClick }: { pinned: boolean; full: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      disabled={!pinned && full}
+      title={!pinned && full ? `Compare up to ${MAX_COMPARED} schools` : undefined}
+      className="mt-2 w-full border border-blue-500 text-blue-600 px-4 py-2 rounded hover:bg-blue-50 transition-colors text-sm disabled:opacity-50"
+    >
+      {pinned ? 'Unpin from comparison' : 'Pin to compare'}
+    </button>
+  );
+}
+
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div>
@@ -109,9 +181,25 @@ interface MapProps {
   institutions: Institution[];
   onInstitutionSelect: (institution: Institution) => void;
   onViewDetails?: (institution: Institution) => void;
+  /** View to open at and follow; without one the map fits the institutions */
+  viewport?: MapViewport | null;
+  onViewportChange?: (viewport: MapViewport) => void;
+  /** Schools pinned for comparison; popups offer pinning when onTogglePin is given */
+  pinnedUnitids?: number[];
+  onTogglePin?: (institution: Institution) => void;
 }
 
-export default function Map({ institutions, onInstitutionSelect, onViewDetails }: MapProps) {
+export default function Map({
+  institutions,
+  onInstitutionSelect,
+  onViewDetails,
+  viewport = null,
+  onViewportChange,
+  pinnedUnitids = [],
+  onTogglePin
+}: MapProps) {
+  const [initialViewport] = useState(viewport);
+
   useEffect(() => {
     delete L.Icon.Default.prototype._getIconUrl;
     L.Icon.Default.mergeOptions({
@@ -123,8 +211,8 @@ export default function Map({ institutions, onInstitutionSelect, onViewDetails }
 
   return (
     <MapContainer
-      center={[39.8283, -98.5795]}
-      zoom={4}
+      center={initialViewport ? [initialViewport.lat, initialViewport.lng] : [39.8283, -98.5795]}
+      zoom={initialViewport?.zoom ?? 4}
       className="h-full w-full"
       zoomControl={false}
     >
@@ -141,7 +229,11 @@ export default function Map({ institutions, onInstitutionSelect, onViewDetails }
             onViewDetails(institution);
           }
         }}
+        keepInitialView={initialViewport !== null}
+        pinnedUnitids={pinnedUnitids}
+        onTogglePin={onTogglePin}
       />
+      {onViewportChange && <ViewportSync viewport={viewport} onViewportChange={onViewportChange} />}
     </MapContainer>
   );
 }
\ No newline at end of file
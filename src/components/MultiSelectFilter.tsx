@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+
+interface MultiSelectOption {
+  id: string;
+  label: string;
+  count?: number;
+}
+
+interface MultiSelectFilterProps {
+  label: string;
+  options: MultiSelectOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export default function MultiSelectFilter({ label, options, selected, onChange }: MultiSelectFilterProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(value => value !== id) : [...selected, id]);
+  };
+
+  const summary = selected.length === 0
+    ? `All ${label}`
+    : selected.length === 1
+      ? options.find(option => option.id === selected[0])?.label ?? label
+      : `${label}: ${selected.length} selected`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center justify-between gap-2 border rounded-lg p-2 w-56 text-left bg-white"
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="w-4 h-4 flex-shrink-0 text-gray-500" />
+      </button>
+      {open && (
+        <div className="absolute z-[1000] mt-1 w-72 bg-white border rounded-lg shadow-lg p-2 max-h-80 overflow-y-auto">
+          {options.map(option => (
+            <label key={option.id} className="flex items-center gap-2 px-2 py-1 text-sm rounded hover:bg-gray-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.id)}
+                onChange={() => toggle(option.id)}
+              />
+              <span className="flex-1">{option.label}</span>
+              {option.count !== undefined && <span className="text-xs text-gray-400">{option.count}</span>}
+            </label>
+          ))}
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([])}
+              className="mt-1 px-2 text-xs text-blue-600 hover:text-blue-800"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,64 @@
-import React, { useState, useEffect } from 'react';
-import { Search, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { Search, X, Filter, SlidersHorizontal } from 'lucide-react';
 import { Institution } from '../types/institution';
+import { InstitutionFilter, SearchFilters } from '../types/institutionFilter';
+import { describeFilter } from '../utils/queryFilter';
+import { CarnegieField } from '../types/carnegie';
+import { countByGroup } from '../utils/carnegie';
+import { createTree, describeCondition, isActiveCondition } from '../utils/filterBuilder';
+import MultiSelectFilter from './MultiSelectFilter';
+import FilterBuilder from './FilterBuilder';
 
 interface SearchFilterPanelProps {
   institutions: Institution[];
-  onFilterChange: (filtered: Institution[]) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  /** Filter applied from a chat question, combined with the controls below */
+  queryFilter?: InstitutionFilter | null;
+  onClearQueryFilter?: () => void;
+  /** Loaded years, newest first */
+  years?: number[];
+  selectedYear?: number | null;
+  onYearChange?: (year: number) => void;
 }
 
-export default function SearchFilterPanel({ institutions, onFilterChange }: SearchFilterPanelProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [admitRateFilter, setAdmitRateFilter] = useState('');
+export default function SearchFilterPanel({
+  institutions,
+  filters,
+  onFiltersChange,
+  queryFilter,
+  onClearQueryFilter,
+  years = [],
+  selectedYear,
+  onYearChange
+}: SearchFilterPanelProps) {
+  const [showAdvanced, setShowAdvanced] = useState(false);
 
-  useEffect(() => {
-    const filtered = institutions.filter(inst => {
-      const matchesSearch = searchTerm === '' || 
-        inst.inst_name.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesAdmitRate = !admitRateFilter || (
-        admitRateFilter === 'selective' 
-          ? inst.admit_rate * 100 <= 30 
-          : inst.admit_rate * 100 > 30
-      );
-      return matchesSearch && matchesAdmitRate;
-    });
-    
-    onFilterChange(filtered);
-  }, [searchTerm, admitRateFilter, institutions]);
+  const update = (changes: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const advancedConditions = filters.advanced.groups.flatMap(group => group.conditions).filter(isActiveCondition);
+
+  // Groups with the number of institutions in each, hiding groups nobody falls in
+  const groupOptions = (field: CarnegieField) =>
+    countByGroup(institutions, field).filter(option => option.count > 0);
 
   const clearSearch = () => {
-    setSearchTerm('');
+    update({ search: '' });
   };
 
   return (
     <div className="bg-white shadow-lg rounded-lg mb-4 p-4">
-      <div className="flex items-center gap-4">
-        <div className="relative flex-1">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[16rem]">
           <input
             type="text"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
             placeholder="Search schools..."
             className="w-full pl-10 pr-10 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
           <Search className="absolute left-3 top-2.5 text-gray-400 w-5 h-5" />
-          {searchTerm && (
+          {filters.search && (
             <button
               onClick={clearSearch}
               className="absolute right-3 top-2.5 text-gray-400 hover:text-gray-600"
@@ -52,18 +68,94 @@ export default function SearchFilterPanel({ institutions, onFilterChange }: Sear
           )}
         </div>
         <select
-          value={admitRateFilter}
-          onChange={(e) => setAdmitRateFilter(e.target.value)}
+          value={filters.admitRate}
+          onChange={(e) => update({ admitRate: e.target.value as SearchFilters['admitRate'] })}
           className="border rounded-lg p-2 w-64"
         >
           <option value="">All Admission Rates</option>
           <option value="selective">Selective (&lt;= 30%)</option>
           <option value="other">&gt; 30%</option>
         </select>
+        <MultiSelectFilter
+          label="Categories"
+          options={groupOptions('cc_basic_2021')}
+          selected={filters.categories}
+          onChange={categories => update({ categories })}
+        />
+        <MultiSelectFilter
+          label="Sizes"
+          options={groupOptions('cc_size_setting_2021')}
+          selected={filters.sizes}
+          onChange={sizes => update({ sizes })}
+        />
+        {years.length > 0 && onYearChange && (
+          <select
+            value={selectedYear ?? ''}
+            onChange={(e) => onYearChange(Number(e.target.value))}
+            disabled={years.length === 1}
+            title="Data year"
+            className="border rounded-lg p-2 disabled:bg-gray-50 disabled:text-gray-500"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => setShowAdvanced(prev => !prev)}
+          className={`flex items-center gap-2 border rounded-lg p-2 ${showAdvanced ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Advanced{advancedConditions.length > 0 ? ` (${advancedConditions.length})` : ''}
+        </button>
         <div className="text-sm text-gray-600">
           Total Schools: {institutions.length}
         </div>
       </div>
+      {showAdvanced ? (
+        <FilterBuilder institutions={institutions} tree={filters.advanced} onChange={advanced => update({ advanced })} />
+      ) : advancedConditions.length > 0 && (
+        <div className="mt-3 flex items-center gap-2 flex-wrap">
+          <span className="flex items-center gap-1 text-sm text-gray-600">
+            <SlidersHorizontal className="w-4 h-4" />
+            Advanced ({filters.advanced.combinator === 'and' || filters.advanced.groups.length === 1 ? 'all groups' : 'any group'}):
+          </span>
+          {advancedConditions.map(condition => (
+            <span key={condition.id} className="text-xs bg-blue-50 text-blue-800 px-2 py-1 rounded">
+              {describeCondition(condition)}
+            </span>
+          ))}
+          <button
+            onClick={() => update({ advanced: createTree() })}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        </div>
+      )}
+      {queryFilter && (
+        <div className="mt-3 flex items-center gap-2 flex-wrap">
+          <span className="flex items-center gap-1 text-sm text-gray-600">
+            <Filter className="w-4 h-4" />
+            From chat:
+          </span>
+          {describeFilter(queryFilter).map(part => (
+            <span key={part} className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded">
+              {part}
+            </span>
+          ))}
+          {onClearQueryFilter && (
+            <button
+              onClick={onClearQueryFilter}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-4 h-4" />
+              Clear
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
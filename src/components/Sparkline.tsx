@@ -0,0 +1,51 @@
+interface SparklineProps {
+  /** Points in year order; null values leave a gap in the line */
+  points: Array<{ year: number; value: number | null }>;
+  highlightYear?: number;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 3;
+
+export default function Sparkline({ points, highlightYear, width = 96, height = 28 }: SparklineProps) {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null);
+  if (values.length === 0) return null;
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const x = (index: number) =>
+    points.length === 1 ? width / 2 : PADDING + (index / (points.length - 1)) * (width - PADDING * 2);
+  const y = (value: number) => height - PADDING - ((value - min) / range) * (height - PADDING * 2);
+
+  const isolated = (index: number) =>
+    (points[index - 1]?.value ?? null) === null && (points[index + 1]?.value ?? null) === null;
+
+  // Consecutive non-null points form one segment
+  const segments: string[][] = [[]];
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      segments.push([]);
+    } else {
+      segments[segments.length - 1].push(`${x(index)},${y(point.value)}`);
+    }
+  });
+
+  return (
+    <svg width={width} height={height} className="text-blue-500" aria-hidden="true">
+      {segments.filter(segment => segment.length > 1).map((segment, index) => (
+        <polyline
+          key={index}
+          points={segment.join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      ))}
+      {points.map((point, index) => point.value !== null && (point.year === highlightYear || isolated(index)) && (
+        <circle key={point.year} cx={x(index)} cy={y(point.value)} r={2.5} fill="currentColor" />
+      ))}
+    </svg>
+  );
+}
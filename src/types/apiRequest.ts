@@ -0,0 +1,46 @@
+import { YearRange } from './dataDictionary';
+
+export interface CatalogEndpoint {
+  label: string;
+  /** Path under the API base URL, without the year */
+  path: string;
+  /** Arguments the R package's get_education_data takes for this endpoint */
+  level: string;
+  source: string;
+  topic: string;
+  /** Endpoint name the Stata educationdata command expects */
+  stataName: string;
+  years: YearRange;
+  /** Variables the endpoint accepts as query-string filters */
+  filters: string[];
+}
+
+export interface EndpointCatalogFile {
+  schemaVersion: number;
+  baseUrl: string;
+  /** Keyed by the endpoint's knowledge-graph node id */
+  endpoints: { [id: string]: CatalogEndpoint };
+}
+
+export interface RequestVariable {
+  name: string;
+  label: string;
+  years?: YearRange;
+  values?: { [code: string]: string };
+}
+
+export interface RequestFilter {
+  variable: string;
+  /** One or more accepted values; several are sent comma-separated */
+  values: string[];
+}
+
+export interface ApiRequest {
+  endpoint: string;
+  year: number;
+  filters: RequestFilter[];
+  /** Retrieved variables the request is meant to fetch */
+  variables: RequestVariable[];
+}
+
+export type SnippetLanguage = 'url' | 'r' | 'python' | 'stata';
@@ -0,0 +1,21 @@
+export type CarnegieField =
+  | 'cc_basic_2021'
+  | 'cc_instruc_undergrad_2021'
+  | 'cc_instruc_grad_2021'
+  | 'cc_size_setting_2021';
+
+/** Related codes filtered together, e.g. every Doctoral Universities code */
+export interface CarnegieGroup {
+  id: string;
+  label: string;
+  codes: number[];
+}
+
+export interface CarnegieClassification {
+  field: CarnegieField;
+  label: string;
+  /** Short header for table columns */
+  shortLabel: string;
+  codes: { [code: number]: string };
+  groups: CarnegieGroup[];
+}
@@ -0,0 +1,27 @@
+export type ComparisonMetricId =
+  | 'admit_rate'
+  | 'number_applied'
+  | 'number_admitted'
+  | 'yield_rate'
+  | 'number_enrolled_total'
+  | 'sum_average_amount'
+  | 'percent_of_students'
+  | 'poverty_rate_home_zip'
+  | 'hhinc_home_zip_med'
+  | 'bach_home_zip_pct';
+
+export interface ComparisonMetric {
+  id: ComparisonMetricId;
+  label: string;
+  section: 'Admissions' | 'Yield' | 'Financial aid' | 'Home ZIP';
+  format: 'percent' | 'number' | 'currency';
+}
+
+/** One metric's values across the whole dataset, ascending, without missing values */
+export interface MetricDistribution {
+  metric: ComparisonMetric;
+  values: number[];
+  min: number;
+  median: number;
+  max: number;
+}
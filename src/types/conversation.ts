@@ -0,0 +1,32 @@
+import { CacheHit, NodeDetails, QueryRewrite } from './knowledgeGraph';
+import { InstitutionFilter } from './institutionFilter';
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  isBot: boolean;
+  timestamp: Date;
+  status: 'typing' | 'sending' | 'delivered' | 'failed';
+  knowledgeGraph?: {
+    relevantNodes: NodeDetails[];
+    cacheHit?: CacheHit;
+    /** Query the nodes were retrieved for, when the question was rewritten */
+    rewrite?: QueryRewrite;
+  };
+  /** Filter read from the question, offered for the Colleges tab */
+  suggestedFilter?: InstitutionFilter;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  /** Assistant thread the conversation continues on */
+  threadId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ChatMessage[];
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & {
+  messageCount: number;
+};
@@ -0,0 +1,23 @@
+export type ValueType = 'identifier' | 'categorical' | 'integer' | 'float' | 'string' | 'date' | 'url';
+
+export interface YearRange {
+  start: number;
+  end: number;
+}
+
+export interface DataDictionaryEntry {
+  label: string;
+  description: string;
+  type: ValueType;
+  /** Meaning of each code a categorical variable takes, keyed by the code as a string */
+  values?: { [code: string]: string };
+  /** Graph node id of the endpoint that serves the variable */
+  endpoint: string;
+  years: YearRange;
+}
+
+export interface DataDictionaryFile {
+  schemaVersion: number;
+  version: string;
+  variables: { [name: string]: DataDictionaryEntry };
+}
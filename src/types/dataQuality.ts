@@ -0,0 +1,47 @@
+import { Institution } from './institution';
+
+export type AuditRuleId =
+  | 'missing-admit-rate'
+  | 'missing-critical-field'
+  | 'invalid-coordinate'
+  | 'missing-name-or-id'
+  | 'invalid-zip'
+  | 'zip-truncated'
+  | 'nan-to-zero'
+  | 'nan-to-null'
+  | 'rate-recomputed'
+  | 'missing-carnegie';
+
+export interface AuditRule {
+  id: AuditRuleId;
+  /** Dropped rules remove the record; coerced rules rewrite one of its values */
+  action: 'dropped' | 'coerced';
+  description: string;
+}
+
+/** Raw values as they arrived; NaN and undefined are kept as their names */
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditEntry {
+  rule: AuditRuleId;
+  unitid: number | null;
+  year: number | null;
+  instName: string | null;
+  field: string;
+  before: AuditValue;
+  /** Value written in its place; absent for dropped records */
+  after?: AuditValue;
+}
+
+export interface DataQualityReport {
+  inputCount: number;
+  outputCount: number;
+  entries: AuditEntry[];
+  /** Filled fields absent from every input record; noted here once instead of as an entry per record */
+  missingFields: string[];
+}
+
+export interface CleaningResult {
+  institutions: Institution[];
+  report: DataQualityReport;
+}
@@ -0,0 +1,39 @@
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  /** Node ids a good retrieval returns; order doesn't matter */
+  expected: string[];
+  notes?: string;
+}
+
+export interface GoldenSet {
+  version: number;
+  /** Knowledge graph version the expected ids were written against */
+  graphVersion: string;
+  questions: GoldenQuestion[];
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  expected: string[];
+  /** Retrieved node ids, best first, cut to k */
+  retrieved: string[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+/** Deterministic for a given tree and embedder, so reports diff cleanly between commits */
+export interface EvaluationReport {
+  graphVersion: string;
+  embeddingModel: string;
+  k: number;
+  options: Record<string, unknown>;
+  metrics: {
+    recall: number;
+    mrr: number;
+    ndcg: number;
+  };
+  questions: QuestionResult[];
+}
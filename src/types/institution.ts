@@ -2,6 +2,7 @@ export interface Institution {
   unitid: number;
   year: number;
   zip: string;
+  state_abbr: string | null;
   opeid: string;
   inst_name: string;
   inst_alias: string;
@@ -22,4 +23,19 @@ export interface Institution {
   bach_home_zip_pct: number | null;
   hhinc_home_zip_med: number | null;
   poverty_rate_home_zip: number | null;
-}
\ No newline at end of file
+}
+
+/** Each institution's rows, oldest year first, keyed by unitid */
+export type InstitutionHistory = Map<number, Institution[]>;
+
+/** A file of institution rows; rows without a year take the snapshot's */
+export interface InstitutionSnapshot {
+  year: number;
+  url: string;
+}
+
+export interface InstitutionSnapshotManifest {
+  snapshots: InstitutionSnapshot[];
+}
+
+export type TrendMetric = 'admit_rate' | 'yield_rate' | 'number_enrolled_total' | 'sum_average_amount';
@@ -0,0 +1,63 @@
+import { CarnegieField } from './carnegie';
+
+export type FilterableField =
+  | 'admit_rate'
+  | 'yield_rate'
+  | 'sum_average_amount'
+  | 'percent_of_students'
+  | 'number_enrolled_total'
+  | 'number_applied';
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+/** Structured filter over Institution fields; every present criterion must match */
+export interface InstitutionFilter {
+  /** Case-insensitive substring of the name or alias */
+  name?: string;
+  /** Two-letter state abbreviations; an institution in any of them matches */
+  states?: string[];
+  ranges: Partial<Record<FilterableField, NumericRange>>;
+}
+
+export type Combinator = 'and' | 'or';
+
+/** Home-ZIP poverty rate bands; see POVERTY_BANDS for the cut-offs */
+export type PovertyBand = 'low' | 'moderate' | 'high' | 'extreme';
+
+export type FilterCondition =
+  | { id: string; kind: 'range'; field: FilterableField; range: NumericRange }
+  | { id: string; kind: 'state'; states: string[] }
+  | { id: string; kind: 'carnegie'; field: CarnegieField; groups: string[] }
+  | { id: string; kind: 'poverty'; bands: PovertyBand[] };
+
+export interface FilterGroup {
+  id: string;
+  combinator: Combinator;
+  conditions: FilterCondition[];
+}
+
+/** Groups joined by `combinator`, each joining its own conditions */
+export interface FilterTree {
+  combinator: Combinator;
+  groups: FilterGroup[];
+}
+
+export interface FilterPreset {
+  name: string;
+  tree: FilterTree;
+  updatedAt: Date;
+}
+
+/** The Colleges search bar controls; every one must match */
+export interface SearchFilters {
+  search: string;
+  admitRate: '' | 'selective' | 'other';
+  /** Carnegie basic classification group ids */
+  categories: string[];
+  /** Carnegie size and setting group ids */
+  sizes: string[];
+  advanced: FilterTree;
+}
@@ -0,0 +1,88 @@
+import { YearRange } from './dataDictionary';
+
+export type NodeKind = 'variable' | 'endpoint' | 'source' | 'topic';
+
+export interface GraphNode {
+  id: string;
+  kind: NodeKind;
+  name: string;
+  label?: string;
+  description?: string;
+  path?: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  type: string;
+  weight: number;
+}
+
+export interface KnowledgeGraphFile {
+  schemaVersion: number;
+  version: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/** Written next to the shipped node index by build:embeddings, recording what it was built from */
+export interface EmbeddingIndexManifest {
+  model: string;
+  /** GraphStore.getEmbeddingFingerprint() of the graph and dictionary that were embedded */
+  fingerprint: string;
+}
+
+export interface NodeRelationship {
+  type: string;
+  direction: 'out' | 'in';
+  target: string;
+  targetLabel: string;
+  targetKind: NodeKind;
+}
+
+export interface PathStep {
+  from: string;
+  to: string;
+  type: string;
+  direction: 'out' | 'in';
+}
+
+export interface GraphPath {
+  seed: string;
+  steps: PathStep[];
+  description: string;
+}
+
+export interface NodeDetails {
+  id: string;
+  name: string;
+  label: string;
+  /** Value type from the data dictionary for variables, the node kind otherwise */
+  format: string;
+  type: NodeKind;
+  path?: string;
+  description?: string;
+  /** Coded values of a categorical variable and what they mean */
+  values?: { [code: string]: string };
+  /** Endpoint node that serves a variable */
+  endpoint?: string;
+  years?: YearRange;
+  similarity: number;
+  score: number;
+  hops: number;
+  /** Seed whose identifier the query named verbatim */
+  exactMatch?: boolean;
+  via?: GraphPath;
+  relationships: NodeRelationship[];
+}
+
+/** Which cache, if any, answered a query: the whole retrieval or just its embedding */
+export type CacheHit = 'retrieval' | 'embedding' | null;
+
+/** Standalone retrieval query produced from a follow-up and the turns before it */
+export interface QueryRewrite {
+  original: string;
+  query: string;
+  /** Who wrote the query: the chat model, the rule-based fallback, or nobody (already standalone) */
+  method: 'model' | 'rules' | 'unchanged';
+}
@@ -0,0 +1,34 @@
+import { InstitutionFilter, SearchFilters } from './institutionFilter';
+
+export type AppTab = 'colleges' | 'applicants' | 'chat';
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+/** Same shape as a @tanstack/react-table sorting entry */
+export interface TableSort {
+  id: string;
+  desc: boolean;
+}
+
+/** Everything a shared link restores */
+export interface AppUrlState {
+  tab: AppTab;
+  /** Null follows the latest loaded year */
+  year: number | null;
+  unitid: number | null;
+  /** Schools pinned for comparison, in pin order */
+  compare: number[];
+  applicantId: string | null;
+  filters: SearchFilters;
+  /** Filter applied from a chat answer */
+  queryFilter: InstitutionFilter | null;
+  /** Null lets the map fit the filtered institutions */
+  viewport: MapViewport | null;
+  sort: TableSort[];
+  /** Zero-based; links show it one-based */
+  page: number;
+}
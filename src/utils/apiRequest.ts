@@ -0,0 +1,182 @@
+import { ApiRequest, RequestFilter, RequestVariable, SnippetLanguage } from '../types/apiRequest';
+import { NodeDetails } from '../types/knowledgeGraph';
+import { EndpointCatalog } from './endpointCatalog';
+import { STATE_FIPS } from './geography';
+
+// Columns every snippet keeps so rows stay identifiable
+const KEY_COLUMNS = ['unitid', 'year'];
+
+const SNIPPET_TEMPLATES: { [language in Exclude<SnippetLanguage, 'url'>]: string } = {
+  r: `library(educationdata)
+
+df <- get_education_data(
+  level = "{{level}}",
+  source = "{{source}}",
+  topic = "{{topic}}",
+  filters = list({{filters}}),
+  add_labels = TRUE
+)
+{{select}}`,
+  python: `import pandas as pd
+import requests
+
+url = "{{url}}"
+results = []
+while url:
+    response = requests.get(url, timeout=60)
+    response.raise_for_status()
+    page = response.json()
+    results.extend(page["results"])
+    url = page["next"]
+
+df = pd.DataFrame(results)
+{{select}}`,
+  stata: `educationdata using "{{stataName}}", sub({{filters}}) csv
+{{keepIf}}
+{{keep}}`
+};
+
+/**
+ * Replaces {{name}} placeholders. A line holding nothing but a placeholder
+ * that resolves to an empty string is dropped, so optional lines vanish.
+ */
+const fillTemplate = (template: string, values: { [name: string]: string }): string =>
+  template
+    .split('\n')
+    .filter(line => {
+      const only = line.match(/^\s*\{\{(\w+)\}\}\s*$/);
+      return !only || values[only[1]] !== '';
+    })
+    .map(line => line.replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? ''))
+    .join('\n');
+
+const isNumeric = (value: string) => /^-?\d+(\.\d+)?$/.test(value);
+
+const quoteUnlessNumeric = (value: string) => (isNumeric(value) ? value : `"${value.replace(/"/g, '\\"')}"`);
+
+const toRequestVariable = ({ name, label, years, values }: NodeDetails): RequestVariable =>
+  ({ name, label, years, values });
+
+/**
+ * One request per catalogued endpoint the retrieved nodes point at: retrieved
+ * variables are grouped under the endpoint that serves them, the year is the
+ * latest one all of them cover, and states named in the question become a
+ * FIPS filter where the endpoint accepts one.
+ */
+export function draftRequests(nodes: NodeDetails[], catalog: EndpointCatalog, states: string[] = []): ApiRequest[] {
+  const grouped: Map<string, RequestVariable[]> = new Map();
+  nodes.forEach(node => {
+    const endpointId = node.type === 'endpoint' ? node.id : node.type === 'variable' ? node.endpoint : undefined;
+    if (!endpointId || !catalog.getEndpoint(endpointId)) return;
+    if (!grouped.has(endpointId)) grouped.set(endpointId, []);
+    if (node.type === 'variable') grouped.get(endpointId)!.push(toRequestVariable(node));
+  });
+
+  return Array.from(grouped.entries()).map(([endpointId, variables]) => {
+    const endpoint = catalog.getEndpoint(endpointId)!;
+    const start = Math.max(endpoint.years.start, ...variables.map(variable => variable.years?.start ?? -Infinity));
+    const end = Math.min(endpoint.years.end, ...variables.map(variable => variable.years?.end ?? Infinity));
+
+    const filters: RequestFilter[] = [];
+    const fips = states.map(state => STATE_FIPS[state]).filter(code => code !== undefined);
+    if (fips.length > 0 && endpoint.filters.includes('fips')) {
+      filters.push({ variable: 'fips', values: fips.map(String) });
+    }
+
+    return { endpoint: endpointId, year: end >= start ? end : endpoint.years.end, filters, variables };
+  });
+}
+
+/** Problems that would make the request fail or miss the variables it was drafted for */
+export function validateRequest(request: ApiRequest, catalog: EndpointCatalog): string[] {
+  const endpoint = catalog.getEndpoint(request.endpoint);
+  if (!endpoint) {
+    return [`Endpoint "${request.endpoint}" is not in the catalog`];
+  }
+
+  const errors: string[] = [];
+  const { start, end } = endpoint.years;
+  if (!Number.isInteger(request.year) || request.year < start || request.year > end) {
+    errors.push(`${endpoint.label} covers ${start}-${end}, not ${request.year}`);
+  }
+
+  request.filters.forEach(({ variable, values }) => {
+    if (!endpoint.filters.includes(variable)) {
+      errors.push(`${variable} can't be used as a filter on ${endpoint.label}`);
+      return;
+    }
+    if (values.length === 0) {
+      errors.push(`Choose at least one value for ${variable}`);
+      return;
+    }
+    const codes = request.variables.find(candidate => candidate.name === variable)?.values;
+    values
+      .filter(value => (codes ? !(value in codes) : !isNumeric(value)))
+      .forEach(value => errors.push(`"${value}" is not a valid value of ${variable}`));
+  });
+
+  request.variables.forEach(({ label, years }) => {
+    if (years && (request.year < years.start || request.year > years.end)) {
+      errors.push(`${label} is only available ${years.start}-${years.end}`);
+    }
+  });
+
+  return errors;
+}
+
+export function buildRequestUrl(request: ApiRequest, catalog: EndpointCatalog): string {
+  const endpoint = catalog.getEndpoint(request.endpoint);
+  if (!endpoint) {
+    throw new Error(`Endpoint "${request.endpoint}" is not in the catalog`);
+  }
+
+  const query = request.filters
+    .filter(filter => filter.values.length > 0)
+    .map(({ variable, values }) => `${encodeURIComponent(variable)}=${values.map(encodeURIComponent).join(',')}`)
+    .join('&');
+  return `${catalog.baseUrl}/${endpoint.path}/${request.year}/${query ? `?${query}` : ''}`;
+}
+
+export function renderSnippet(language: SnippetLanguage, request: ApiRequest, catalog: EndpointCatalog): string {
+  const url = buildRequestUrl(request, catalog);
+  if (language === 'url') return url;
+
+  const endpoint = catalog.getEndpoint(request.endpoint)!;
+  const filters = request.filters.filter(filter => filter.values.length > 0);
+  const columns = Array.from(new Set([...KEY_COLUMNS, ...request.variables.map(variable => variable.name)]));
+  const selected = request.variables.length > 0;
+
+  switch (language) {
+    case 'r':
+      return fillTemplate(SNIPPET_TEMPLATES.r, {
+        level: endpoint.level,
+        source: endpoint.source,
+        topic: endpoint.topic,
+        filters: [
+          `year = ${request.year}`,
+          ...filters.map(({ variable, values }) => values.length === 1
+            ? `${variable} = ${quoteUnlessNumeric(values[0])}`
+            : `${variable} = c(${values.map(quoteUnlessNumeric).join(', ')})`)
+        ].join(', '),
+        select: selected ? `df <- df[, c(${columns.map(column => `"${column}"`).join(', ')})]` : ''
+      });
+    case 'python':
+      return fillTemplate(SNIPPET_TEMPLATES.python, {
+        url,
+        select: selected ? `df = df[[${columns.map(column => `"${column}"`).join(', ')}]]` : ''
+      });
+    case 'stata': {
+      // sub() takes one value per variable; the rest are kept after loading
+      const single = filters.filter(filter => filter.values.length === 1);
+      const multiple = filters.filter(filter => filter.values.length > 1);
+      return fillTemplate(SNIPPET_TEMPLATES.stata, {
+        stataName: endpoint.stataName,
+        filters: [`year=${request.year}`, ...single.map(({ variable, values }) => `${variable}=${values[0]}`)].join(' '),
+        keepIf: multiple
+          .map(({ variable, values }) => `keep if inlist(${variable}, ${values.map(quoteUnlessNumeric).join(', ')})`)
+          .join('\n'),
+        keep: selected ? `keep ${columns.join(' ')}` : ''
+      });
+    }
+  }
+}
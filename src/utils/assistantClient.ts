@@ -1,26 +1,60 @@
-import OpenAI from 'openai';
+import { postEventStream } from './sse';
+import { AssistantTool } from './assistantTools';
+
+interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+const MAX_TOOL_OUTPUT_CHARS = 20000;
 
 export class AssistantClient {
-  private openai: OpenAI;
-  private assistantId: string;
+  private baseUrl: string;
   private thread: { id: string } | null = null;
+  private tools: Map<string, AssistantTool> = new Map();
   private retryCount: number = 0;
   private readonly maxRetries: number = 3;
   private readonly baseDelay: number = 2000;
-  private readonly timeout: number = 30000;
-
-  constructor(apiKey: string, assistantId: string) {
-    this.openai = new OpenAI({
-      apiKey,
-      dangerouslyAllowBrowser: true
-    });
-    this.assistantId = assistantId;
+  private readonly idleTimeout: number = 30000;
+
+  constructor(baseUrl: string = '/api/assistant') {
+    this.baseUrl = baseUrl;
+  }
+
+  registerTool(tool: AssistantTool) {
+    this.tools.set(tool.name, tool);
+  }
+
+  private async runToolCall(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.name);
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool "${call.name}"`);
+      }
+      const result = await tool.handler(call.arguments ? JSON.parse(call.arguments) : {});
+      const output = JSON.stringify(result);
+      return output.length > MAX_TOOL_OUTPUT_CHARS
+        ? JSON.stringify({ error: 'Result too large; narrow the query or lower the limit' })
+        : output;
+    } catch (error) {
+      // Errors go back to the model as output so it can recover or explain
+      return JSON.stringify({ error: error instanceof Error ? error.message : 'Tool failed' });
+    }
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(payload.error || `Request failed: ${response.status} ${response.statusText}`);
+    }
+    return payload as T;
   }
 
   async initialize() {
     try {
-      const assistant = await this.openai.beta.assistants.retrieve(this.assistantId);
-      return assistant;
+      return await this.request<{ id: string; name: string | null }>('');
     } catch (error) {
       console.error('Error retrieving assistant:', error);
       throw new Error('Failed to initialize assistant');
@@ -29,7 +63,7 @@ export class AssistantClient {
 
   async createThread() {
     try {
-      const thread = await this.openai.beta.threads.create();
+      const thread = await this.request<{ id: string }>('/threads', { method: 'POST' });
       this.thread = thread;
       return thread;
     } catch (error) {
@@ -38,6 +72,20 @@ export class AssistantClient {
     }
   }
 
+  get threadId(): string | null {
+    return this.thread?.id ?? null;
+  }
+
+  /** Continues an existing thread, e.g. when resuming a saved conversation */
+  attachThread(threadId: string) {
+    this.thread = { id: threadId };
+  }
+
+  /** Drops the current thread; the next conversation needs createThread */
+  detachThread() {
+    this.thread = null;
+  }
+
   private async exponentialBackoff(): Promise<void> {
     const delay = this.baseDelay * Math.pow(2, this.retryCount);
     await new Promise(resolve => setTimeout(resolve, delay));
@@ -48,102 +96,108 @@ export class AssistantClient {
     this.retryCount = 0;
   }
 
-  private async waitForRunCompletion(threadId: string, runId: string, signal?: AbortSignal): Promise<void> {
-    const startTime = Date.now();
-    
-    while (true) {
-      if (signal?.aborted) {
-        throw new Error('Request cancelled');
-      }
-
-      if (Date.now() - startTime > this.timeout) {
-        throw new Error('Request timed out');
-      }
-
-      const runStatus = await this.openai.beta.threads.runs.retrieve(threadId, runId);
-
-      switch (runStatus.status) {
-        case 'completed':
-          return;
-        case 'failed':
-          throw new Error(runStatus.last_error?.message || 'Run failed');
-        case 'cancelled':
-          throw new Error('Run was cancelled');
-        case 'expired':
-          throw new Error('Run expired');
-        case 'requires_action':
-          throw new Error('Run requires action');
-        default:
-          // For 'queued' or 'in_progress', continue polling
-          await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+  private cancelRun(threadId: string, runId: string) {
+    // keepalive lets the cancel go out even if the tab is closing
+    fetch(`${this.baseUrl}/threads/${threadId}/runs/${runId}/cancel`, { method: 'POST', keepalive: true })
+      .catch(error => console.error('Error cancelling run:', error));
   }
 
-  async *streamMessage(content: string, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+  /**
+   * Streams the assistant's reply as text deltas arrive, running registered
+   * tools locally whenever the run asks for them. `instructions` are appended
+   * to the assistant's own for this run only. Aborting `signal`, or going
+   * `idleTimeout` ms without any event, also cancels the run server-side.
+   */
+  async *streamMessage(
+    content: string,
+    signal?: AbortSignal,
+    instructions?: string
+  ): AsyncGenerator<string, void, unknown> {
     if (!this.thread) {
       throw new Error('Thread not initialized');
     }
 
+    const threadId = this.thread.id;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    let runId: string | null = null;
+    // Status of the last response; null until one arrives
+    let status: number | null = null;
+    let timedOut = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.idleTimeout);
+    };
+
     try {
-      // Add the message to the thread
-      await this.openai.beta.threads.messages.create(
-        this.thread.id,
-        { role: 'user', content },
-        { signal }
-      );
-
-      // Run the assistant
-      const run = await this.openai.beta.threads.runs.create(
-        this.thread.id,
-        { assistant_id: this.assistantId },
-        { signal }
-      );
-
-      // Wait for the run to complete
-      await this.waitForRunCompletion(this.thread.id, run.id, signal);
-
-      // Get the assistant's response
-      const messages = await this.openai.beta.threads.messages.list(
-        this.thread.id,
-        { limit: 1, order: 'desc' }
-      );
-
-      const lastMessage = messages.data[0];
-      if (!lastMessage || lastMessage.role !== 'assistant') {
-        throw new Error('No assistant response found');
+      resetIdleTimer();
+      const runsUrl = `${this.baseUrl}/threads/${threadId}/runs`;
+      const tools = Array.from(this.tools.values()).map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters
+      }));
+
+      // Each stream ends either with the answer or with tool calls; outputs for the
+      // latter are submitted on a follow-up stream that continues the same run
+      let next: { url: string; body: unknown } | null = { url: runsUrl, body: { content, tools, instructions } };
+      while (next) {
+        const events = postEventStream(next.url, next.body, controller.signal, received => {
+          status = received;
+        });
+        next = null;
+
+        for await (const { event, data } of events) {
+          resetIdleTimer();
+          if (event === 'run') {
+            runId = (data as { id: string }).id;
+          } else if (event === 'delta') {
+            yield (data as { text: string }).text;
+          } else if (event === 'tool_calls') {
+            const { calls } = data as { calls: ToolCall[] };
+            const toolOutputs = await Promise.all(calls.map(async call => ({
+              tool_call_id: call.id,
+              output: await this.runToolCall(call)
+            })));
+            resetIdleTimer();
+            next = { url: `${runsUrl}/${runId}/tool-outputs`, body: { tool_outputs: toolOutputs } };
+          }
+        }
       }
-
-      const messageContent = lastMessage.content[0];
-      if (messageContent.type !== 'text') {
-        throw new Error('Unexpected message content type');
+      this.resetRetryCount();
+    } catch (error) {
+      if (runId && (timedOut || signal?.aborted)) {
+        this.cancelRun(threadId, runId);
       }
-
-      // Split the response into chunks and yield them
-      const chunkSize = 10;
-      const text = messageContent.text.value;
-      const words = text.split(' ');
-      
-      for (let i = 0; i < words.length; i += chunkSize) {
-        const chunk = words.slice(i, i + chunkSize).join(' ');
-        yield chunk + ' ';
-        await new Promise(resolve => setTimeout(resolve, 50)); // Add small delay between chunks
+      if (signal?.aborted) {
+        throw new Error('Request cancelled');
+      }
+      if (timedOut) {
+        throw new Error('Request timed out');
       }
-
-    } catch (error) {
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Request cancelled');
-        }
-        if (this.retryCount < this.maxRetries) {
+        // Only a network failure or a server error before the stream opened is worth
+        // retrying; a 4xx won't change, and once events flow the run is under way
+        const retryable = !runId && (status === null || status >= 500);
+        if (retryable && this.retryCount < this.maxRetries) {
           await this.exponentialBackoff();
-          yield* this.streamMessage(content, signal);
+          yield* this.streamMessage(content, signal, instructions);
+          return;
         } else {
           this.resetRetryCount();
           throw error;
         }
       }
       throw new Error('An unexpected error occurred');
+    } finally {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', abort);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+import { Institution } from '../types/institution';
+import { Applicant } from '../types/applicant';
+import { normalizeState } from './geography';
+
+export interface AssistantTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object */
+  parameters: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+const summarizeInstitution = (inst: Institution) => ({
+  unitid: inst.unitid,
+  name: inst.inst_name,
+  state: inst.state_abbr,
+  zip: inst.zip,
+  admit_rate: inst.admit_rate,
+  yield_rate: inst.yield_rate,
+  number_applied: inst.number_applied,
+  number_enrolled_total: inst.number_enrolled_total,
+  average_aid_amount: inst.sum_average_amount,
+  percent_receiving_aid: inst.percent_of_students
+});
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const clampLimit = (value: unknown): number => {
+  const limit = typeof value === 'number' ? Math.floor(value) : DEFAULT_LIMIT;
+  return Math.min(Math.max(limit, 1), MAX_LIMIT);
+};
+
+const institutionFilter = (args: Record<string, unknown>) => {
+  const name = typeof args.name === 'string' ? args.name.toLowerCase() : '';
+  const state = typeof args.state === 'string' ? normalizeState(args.state) : null;
+  if (typeof args.state === 'string' && !state) {
+    throw new Error(`Unknown state "${args.state}"`);
+  }
+  const minAdmit = typeof args.min_admit_rate === 'number' ? args.min_admit_rate : -Infinity;
+  const maxAdmit = typeof args.max_admit_rate === 'number' ? args.max_admit_rate : Infinity;
+
+  return (inst: Institution) =>
+    (!name || inst.inst_name.toLowerCase().includes(name) || (inst.inst_alias || '').toLowerCase().includes(name)) &&
+    (!state || inst.state_abbr === state) &&
+    inst.admit_rate >= minAdmit &&
+    inst.admit_rate <= maxAdmit;
+};
+
+const filterProperties = {
+  name: { type: 'string', description: 'Case-insensitive substring of the institution name or alias' },
+  state: { type: 'string', description: 'State name or two-letter abbreviation, e.g. "OH" or "Ohio"' },
+  min_admit_rate: { type: 'number', description: 'Lowest admission rate to include, as a fraction between 0 and 1' },
+  max_admit_rate: { type: 'number', description: 'Highest admission rate to include, as a fraction between 0 and 1' }
+};
+
+/**
+ * Tools the assistant can call against the data loaded in the app, so answers
+ * about specific schools come from the same records the map and table show.
+ */
+export function createDataTools(institutions: Institution[], applicants: Applicant[]): AssistantTool[] {
+  return [
+    {
+      name: 'search_institutions',
+      description: 'Search the institutions loaded in the explorer by name and/or state. Returns admissions, yield and aid figures.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...filterProperties,
+          limit: { type: 'integer', description: `Maximum results to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})` }
+        }
+      },
+      handler: (args) => {
+        const matches = institutions.filter(institutionFilter(args));
+        return {
+          total_matches: matches.length,
+          institutions: matches.slice(0, clampLimit(args.limit)).map(summarizeInstitution)
+        };
+      }
+    },
+    {
+      name: 'median_admit_rate',
+      description: 'Compute the median admission rate (fraction between 0 and 1) over institutions matching the filter.',
+      parameters: {
+        type: 'object',
+        properties: filterProperties
+      },
+      handler: (args) => {
+        const matches = institutions.filter(institutionFilter(args));
+        return {
+          institution_count: matches.length,
+          median_admit_rate: median(matches.map(inst => inst.admit_rate))
+        };
+      }
+    },
+    {
+      name: 'get_institution',
+      description: 'Fetch the full record of one institution by its IPEDS unitid.',
+      parameters: {
+        type: 'object',
+        properties: {
+          unitid: { type: 'integer', description: 'IPEDS unit ID' }
+        },
+        required: ['unitid']
+      },
+      handler: (args) => {
+        const institution = institutions.find(inst => inst.unitid === Number(args.unitid));
+        if (!institution) {
+          throw new Error(`No institution with unitid ${args.unitid}`);
+        }
+        return institution;
+      }
+    },
+    {
+      name: 'get_applicant',
+      description: 'Fetch a synthetic applicant by ID or name, with the institutions they applied to.',
+      parameters: {
+        type: 'object',
+        properties: {
+          applicant_id: { type: 'string', description: 'Applicant ID' },
+          name: { type: 'string', description: 'Case-insensitive applicant name' }
+        }
+      },
+      handler: (args) => {
+        const name = typeof args.name === 'string' ? args.name.toLowerCase() : '';
+        const applicant = applicants.find(a =>
+          a.applicant_id === args.applicant_id || (name && a.name.toLowerCase() === name)
+        );
+        if (!applicant) {
+          throw new Error('No matching applicant');
+        }
+        return {
+          ...applicant,
+          applied_to: institutions
+            .filter(inst => applicant.applied_to.includes(inst.unitid))
+            .map(summarizeInstitution)
+        };
+      }
+    }
+  ];
+}
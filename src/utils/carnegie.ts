@@ -0,0 +1,197 @@
+import { CarnegieClassification, CarnegieField, CarnegieGroup } from '../types/carnegie';
+import { Institution } from '../types/institution';
+
+// -2 and 0 mean the same in every 2021 classification
+const UNCLASSIFIED_CODES = { [-2]: 'Not applicable', 0: 'Not classified' };
+const UNCLASSIFIED_GROUP: CarnegieGroup = { id: 'unclassified', label: 'Not classified', codes: [-2, 0] };
+
+const range = (start: number, end: number) => Array.from({ length: end - start + 1 }, (_, i) => start + i);
+
+const BASIC: CarnegieClassification = {
+  field: 'cc_basic_2021',
+  label: 'Basic classification',
+  shortLabel: 'Basic',
+  codes: {
+    ...UNCLASSIFIED_CODES,
+    1: "Associate's Colleges: High Transfer-High Traditional",
+    2: "Associate's Colleges: High Transfer-Mixed Traditional/Nontraditional",
+    3: "Associate's Colleges: High Transfer-High Nontraditional",
+    4: "Associate's Colleges: Mixed Transfer/Career & Technical-High Traditional",
+    5: "Associate's Colleges: Mixed Transfer/Career & Technical-Mixed Traditional/Nontraditional",
+    6: "Associate's Colleges: Mixed Transfer/Career & Technical-High Nontraditional",
+    7: "Associate's Colleges: High Career & Technical-High Traditional",
+    8: "Associate's Colleges: High Career & Technical-Mixed Traditional/Nontraditional",
+    9: "Associate's Colleges: High Career & Technical-High Nontraditional",
+    10: 'Special Focus Two-Year: Health Professions',
+    11: 'Special Focus Two-Year: Technical Professions',
+    12: 'Special Focus Two-Year: Arts & Design',
+    13: 'Special Focus Two-Year: Other Fields',
+    14: "Baccalaureate/Associate's Colleges: Associate's Dominant",
+    15: 'Doctoral Universities: Very High Research Activity',
+    16: 'Doctoral Universities: High Research Activity',
+    17: 'Doctoral/Professional Universities',
+    18: "Master's Colleges & Universities: Larger Programs",
+    19: "Master's Colleges & Universities: Medium Programs",
+    20: "Master's Colleges & Universities: Small Programs",
+    21: 'Baccalaureate Colleges: Arts & Sciences Focus',
+    22: 'Baccalaureate Colleges: Diverse Fields',
+    23: "Baccalaureate/Associate's Colleges: Mixed Baccalaureate/Associate's",
+    24: 'Special Focus Four-Year: Faith-Related Institutions',
+    25: 'Special Focus Four-Year: Medical Schools & Centers',
+    26: 'Special Focus Four-Year: Other Health Professions Schools',
+    27: 'Special Focus Four-Year: Research Institution',
+    28: 'Special Focus Four-Year: Engineering and Other Technology-Related Schools',
+    29: 'Special Focus Four-Year: Business & Management Schools',
+    30: 'Special Focus Four-Year: Arts, Music & Design Schools',
+    31: 'Special Focus Four-Year: Law Schools',
+    32: 'Special Focus Four-Year: Other Special Focus Institutions',
+    33: 'Tribal Colleges'
+  },
+  groups: [
+    { id: 'doctoral', label: 'Doctoral Universities', codes: [15, 16, 17] },
+    { id: 'masters', label: "Master's Colleges & Universities", codes: [18, 19, 20] },
+    { id: 'baccalaureate', label: 'Baccalaureate Colleges', codes: [21, 22] },
+    { id: 'baccalaureate-associates', label: "Baccalaureate/Associate's Colleges", codes: [14, 23] },
+    { id: 'associates', label: "Associate's Colleges", codes: range(1, 9) },
+    { id: 'special-focus-four-year', label: 'Special Focus Four-Year', codes: range(24, 32) },
+    { id: 'special-focus-two-year', label: 'Special Focus Two-Year', codes: range(10, 13) },
+    { id: 'tribal', label: 'Tribal Colleges', codes: [33] },
+    UNCLASSIFIED_GROUP
+  ]
+};
+
+// Instructional program codes 6-20 cross program mix with graduate coexistence
+const UNDERGRAD_MIXES = [
+  'Arts & sciences focus',
+  'Arts & sciences plus professions',
+  'Balanced arts & sciences/professions',
+  'Professions plus arts & sciences',
+  'Professions focus'
+];
+const GRAD_COEXISTENCE = ['no graduate coexistence', 'some graduate coexistence', 'high graduate coexistence'];
+
+const INSTRUCTIONAL_UNDERGRAD: CarnegieClassification = {
+  field: 'cc_instruc_undergrad_2021',
+  label: 'Undergraduate instructional program',
+  shortLabel: 'Undergraduate program',
+  codes: {
+    ...UNCLASSIFIED_CODES,
+    1: "Associate's Colleges: High Transfer",
+    2: "Associate's Colleges: Mixed Transfer/Career & Technical",
+    3: "Associate's Colleges: High Career & Technical",
+    4: 'Special Focus Two-Year',
+    5: "Baccalaureate/Associate's Colleges",
+    ...Object.fromEntries(UNDERGRAD_MIXES.flatMap((mix, i) =>
+      GRAD_COEXISTENCE.map((coexistence, j) => [6 + i * 3 + j, `${mix}, ${coexistence}`])
+    ))
+  },
+  groups: [
+    ...UNDERGRAD_MIXES.map((mix, i) => ({
+      id: mix.toLowerCase().replace(/[^a-z]+/g, '-'),
+      label: mix,
+      codes: range(6 + i * 3, 8 + i * 3)
+    })),
+    { id: 'baccalaureate-associates', label: "Baccalaureate/Associate's Colleges", codes: [5] },
+    { id: 'two-year', label: 'Two-year', codes: range(1, 4) },
+    UNCLASSIFIED_GROUP
+  ]
+};
+
+const INSTRUCTIONAL_GRAD: CarnegieClassification = {
+  field: 'cc_instruc_grad_2021',
+  label: 'Graduate instructional program',
+  shortLabel: 'Graduate program',
+  codes: {
+    ...UNCLASSIFIED_CODES,
+    1: 'Postbaccalaureate: Single program-Education',
+    2: 'Postbaccalaureate: Single program-Business',
+    3: 'Postbaccalaureate: Single program-Other',
+    4: 'Postbaccalaureate: Comprehensive programs',
+    5: 'Postbaccalaureate: Arts & sciences-dominant',
+    6: 'Postbaccalaureate: Education-dominant, with arts & sciences',
+    7: 'Postbaccalaureate: Business-dominant, with arts & sciences',
+    8: 'Postbaccalaureate: Other-dominant, with arts & sciences',
+    9: 'Postbaccalaureate: Education-dominant, with other professional programs',
+    10: 'Postbaccalaureate: Business-dominant, with other professional programs',
+    11: 'Postbaccalaureate: Other-dominant, with other professional programs',
+    12: 'Research Doctoral: Single program-Education',
+    13: 'Research Doctoral: Single program-Other',
+    14: 'Research Doctoral: Comprehensive programs, with medical/veterinary school',
+    15: 'Research Doctoral: Comprehensive programs, no medical/veterinary school',
+    16: 'Research Doctoral: Humanities/social sciences-dominant',
+    17: 'Research Doctoral: STEM-dominant',
+    18: 'Research Doctoral: Professional-dominant'
+  },
+  groups: [
+    { id: 'research-doctoral', label: 'Research Doctoral', codes: range(12, 18) },
+    { id: 'postbaccalaureate', label: 'Postbaccalaureate', codes: range(1, 11) },
+    UNCLASSIFIED_GROUP
+  ]
+};
+
+const SIZE_SETTING: CarnegieClassification = {
+  field: 'cc_size_setting_2021',
+  label: 'Size and setting',
+  shortLabel: 'Size & setting',
+  codes: {
+    ...UNCLASSIFIED_CODES,
+    1: 'Two-year, very small',
+    2: 'Two-year, small',
+    3: 'Two-year, medium',
+    4: 'Two-year, large',
+    5: 'Two-year, very large',
+    6: 'Four-year, very small, primarily nonresidential',
+    7: 'Four-year, very small, primarily residential',
+    8: 'Four-year, very small, highly residential',
+    9: 'Four-year, small, primarily nonresidential',
+    10: 'Four-year, small, primarily residential',
+    11: 'Four-year, small, highly residential',
+    12: 'Four-year, medium, primarily nonresidential',
+    13: 'Four-year, medium, primarily residential',
+    14: 'Four-year, medium, highly residential',
+    15: 'Four-year, large, primarily nonresidential',
+    16: 'Four-year, large, primarily residential',
+    17: 'Four-year, large, highly residential',
+    18: 'Exclusively graduate/professional'
+  },
+  groups: [
+    { id: 'four-year-large', label: 'Four-year, large', codes: [15, 16, 17] },
+    { id: 'four-year-medium', label: 'Four-year, medium', codes: [12, 13, 14] },
+    { id: 'four-year-small', label: 'Four-year, small', codes: [9, 10, 11] },
+    { id: 'four-year-very-small', label: 'Four-year, very small', codes: [6, 7, 8] },
+    { id: 'two-year', label: 'Two-year', codes: range(1, 5) },
+    { id: 'graduate', label: 'Exclusively graduate/professional', codes: [18] },
+    UNCLASSIFIED_GROUP
+  ]
+};
+
+/** The 2021 Carnegie classifications institutions.json carries, in display order */
+export const CARNEGIE_CLASSIFICATIONS: CarnegieClassification[] = [BASIC, SIZE_SETTING, INSTRUCTIONAL_UNDERGRAD, INSTRUCTIONAL_GRAD];
+
+const byField = new Map(CARNEGIE_CLASSIFICATIONS.map(classification => [classification.field, classification]));
+
+export const getClassification = (field: CarnegieField): CarnegieClassification => byField.get(field)!;
+
+/** Label for a code, "N/A" when missing, or "Unknown code N" when the 2021 classification doesn't define it */
+export const carnegieLabel = (field: CarnegieField, code: number | null | undefined): string => {
+  if (code === null || code === undefined || isNaN(code)) return 'N/A';
+  return getClassification(field).codes[code] ?? `Unknown code ${code}`;
+};
+
+export const carnegieGroup = (field: CarnegieField, code: number): CarnegieGroup | undefined =>
+  getClassification(field).groups.find(group => group.codes.includes(code));
+
+/** A classification's groups with how many institutions fall in each */
+export const countByGroup = (institutions: Institution[], field: CarnegieField) =>
+  getClassification(field).groups.map(group => ({
+    id: group.id,
+    label: group.label,
+    count: institutions.filter(inst => carnegieGroup(field, inst[field])?.id === group.id).length
+  }));
+
+/** Whether the institution falls in one of the groups; an empty selection matches everything */
+export const matchesCarnegieGroups = (inst: Institution, field: CarnegieField, groupIds: string[]): boolean => {
+  if (groupIds.length === 0) return true;
+  const group = carnegieGroup(field, inst[field]);
+  return group !== undefined && groupIds.includes(group.id);
+};
@@ -0,0 +1,40 @@
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; indices: number[] };
+
+// Matches markers like [2] or [1, 3]
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Splits answer text into plain text and citation markers. Markers are
+ * 1-based positions in the retrieved node list and come back as 0-based
+ * indices; markers naming no retrieved node are left as text.
+ */
+export const splitCitations = (text: string, nodeCount: number): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const indices = match[1].split(',').map(value => Number(value.trim()) - 1);
+    if (indices.some(index => index < 0 || index >= nodeCount)) continue;
+
+    if (match.index! > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'citation', indices });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+export const citedIndices = (text: string, nodeCount: number): Set<number> =>
+  new Set(
+    splitCitations(text, nodeCount).flatMap(segment => segment.type === 'citation' ? segment.indices : [])
+  );
+
+/** DOM id of a node card in the knowledge graph panel, used as a scroll target */
+export const nodeCardId = (messageId: string, index: number) => `kg-${messageId}-${index}`;
@@ -0,0 +1,157 @@
+import { ComparisonMetric, ComparisonMetricId, MetricDistribution } from '../types/comparison';
+import { Institution } from '../types/institution';
+import { CsvValue, toCsv } from './fileExport';
+
+export const MAX_COMPARED = 4;
+
+/** One per compared school, in pin order; hex so exports match the screen */
+export const COMPARISON_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706'];
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  { id: 'admit_rate', label: 'Admission rate', section: 'Admissions', format: 'percent' },
+  { id: 'number_applied', label: 'Applicants', section: 'Admissions', format: 'number' },
+  { id: 'number_admitted', label: 'Admitted', section: 'Admissions', format: 'number' },
+  { id: 'yield_rate', label: 'Yield rate', section: 'Yield', format: 'percent' },
+  { id: 'number_enrolled_total', label: 'Enrolled', section: 'Yield', format: 'number' },
+  { id: 'sum_average_amount', label: 'Average aid', section: 'Financial aid', format: 'currency' },
+  { id: 'percent_of_students', label: 'Students receiving aid', section: 'Financial aid', format: 'percent' },
+  { id: 'poverty_rate_home_zip', label: 'Poverty rate', section: 'Home ZIP', format: 'percent' },
+  { id: 'hhinc_home_zip_med', label: 'Median household income', section: 'Home ZIP', format: 'currency' },
+  { id: 'bach_home_zip_pct', label: "Adults with a bachelor's degree", section: 'Home ZIP', format: 'percent' }
+];
+
+export const metricValue = (inst: Institution, id: ComparisonMetricId): number | null => {
+  const value = inst[id];
+  return value === null || isNaN(value) ? null : value;
+};
+
+/** Pins the school, or unpins it if it already is; a full list is returned unchanged */
+export const togglePinned = (unitids: number[], unitid: number): number[] => {
+  if (unitids.includes(unitid)) return unitids.filter(id => id !== unitid);
+  return unitids.length < MAX_COMPARED ? [...unitids, unitid] : unitids;
+};
+
+/** Null when no institution in the dataset has the metric */
+export function metricDistribution(institutions: Institution[], metric: ComparisonMetric): MetricDistribution | null {
+  const values = institutions
+    .map(inst => metricValue(inst, metric.id))
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+  if (values.length === 0) return null;
+
+  const middle = Math.floor(values.length / 2);
+  const median = values.length % 2 === 0 ? (values[middle - 1] + values[middle]) / 2 : values[middle];
+  return { metric, values, min: values[0], median, max: values[values.length - 1] };
+}
+
+/** Share of the dataset below the value, counting ties as half, 0–100 */
+export function percentileRank({ values }: MetricDistribution, value: number): number {
+  const below = values.filter(candidate => candidate < value).length;
+  const equal = values.filter(candidate => candidate === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+}
+
+export const formatMetricValue = (value: number | null, format: ComparisonMetric['format']): string => {
+  if (value === null || isNaN(value)) return 'N/A';
+  if (format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (format === 'currency') return `$${Math.round(value).toLocaleString()}`;
+  return value.toLocaleString();
+};
+
+export const formatPercentile = (percentile: number): string => {
+  const rank = Math.round(percentile);
+  const suffix = rank % 100 >= 11 && rank % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][rank % 10] ?? 'th';
+  return `${rank}${suffix} percentile`;
+};
+
+const distributions = (dataset: Institution[]) =>
+  COMPARISON_METRICS.map(metric => ({ metric, distribution: metricDistribution(dataset, metric) }));
+
+/** A row per metric: each school's raw value and percentile, then the dataset's range */
+export function comparisonCsv(compared: Institution[], dataset: Institution[]): string {
+  const headers = [
+    'section',
+    'metric',
+    ...compared.flatMap(inst => [inst.inst_name, `${inst.inst_name} percentile`]),
+    'dataset_min',
+    'dataset_median',
+    'dataset_max'
+  ];
+  const rows = distributions(dataset).map(({ metric, distribution }): CsvValue[] => [
+    metric.section,
+    metric.label,
+    ...compared.flatMap(inst => {
+      const value = metricValue(inst, metric.id);
+      return [value, value !== null && distribution ? Number(percentileRank(distribution, value).toFixed(1)) : null];
+    }),
+    distribution?.min,
+    distribution?.median,
+    distribution?.max
+  ]);
+  return toCsv(headers, rows);
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+/** A standalone page with the comparison table and percentile bars, styled for printing */
+export function comparisonHtml(compared: Institution[], dataset: Institution[], year: number | null): string {
+  const title = `Institution comparison${year !== null ? ` (${year})` : ''}`;
+  const swatch = (index: number) =>
+    `<span class="swatch" style="background:${COMPARISON_COLORS[index]}"></span>`;
+
+  const rows = distributions(dataset).map(({ metric, distribution }) => {
+    const cells = compared.map(inst => {
+      const value = metricValue(inst, metric.id);
+      const percentile = value !== null && distribution ? percentileRank(distribution, value) : null;
+      return `<td>${escapeHtml(formatMetricValue(value, metric.format))}` +
+        (percentile !== null ? `<div class="muted">${formatPercentile(percentile)}</div>` : '') + '</td>';
+    }).join('');
+    const markers = distribution
+      ? compared.map((inst, index) => {
+          const value = metricValue(inst, metric.id);
+          return value === null ? '' :
+            `<span class="marker" style="left:${percentileRank(distribution, value).toFixed(1)}%;background:${COMPARISON_COLORS[index]}"></span>`;
+        }).join('')
+      : '';
+    const range = distribution
+      ? `<div class="muted range"><span>${escapeHtml(formatMetricValue(distribution.min, metric.format))}</span>` +
+        `<span>median ${escapeHtml(formatMetricValue(distribution.median, metric.format))}</span>` +
+        `<span>${escapeHtml(formatMetricValue(distribution.max, metric.format))}</span></div>`
+      : '<div class="muted">No data</div>';
+    return `<tr><th><div class="muted">${escapeHtml(metric.section)}</div>${escapeHtml(metric.label)}</th>${cells}` +
+      `<td class="bar-cell"><div class="track">${markers}</div>${range}</td></tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.5rem; text-align: left; vertical-align: top; }
+  .muted { color: #6b7280; font-size: 0.75rem; font-weight: normal; }
+  .swatch { display: inline-block; width: 0.75rem; height: 0.75rem; border-radius: 9999px; margin-right: 0.375rem; }
+  .bar-cell { width: 30%; }
+  .track { position: relative; height: 0.5rem; margin: 0.375rem 0; border-radius: 9999px; background: #e5e7eb; }
+  .marker { position: absolute; top: -0.25rem; width: 1rem; height: 1rem; margin-left: -0.5rem; border: 2px solid #fff; border-radius: 9999px; }
+  .range { display: flex; justify-content: space-between; }
+  @media print { body { margin: 0; } * { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Bars place each school by percentile among all ${dataset.length.toLocaleString()} institutions in the dataset.</p>
+<table>
+<thead><tr><th>Metric</th>${compared.map((inst, index) =>
+    `<th>${swatch(index)}${escapeHtml(inst.inst_name)}</th>`).join('')}<th>Against the dataset</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,56 @@
+import { Conversation, ConversationSummary } from '../types/conversation';
+import { objectStore, openDatabase, promisify, STORE_NAMES } from './indexedDb';
+
+/**
+ * Chat conversations persisted in IndexedDB, so research sessions survive
+ * tab switches and reloads. Messages keep their retrieved knowledge graph
+ * nodes, and each conversation keeps the assistant thread it runs on.
+ */
+export class ConversationStore {
+  private db: IDBDatabase | null = null;
+
+  async ensureInitialized(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = await openDatabase();
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    await this.ensureInitialized();
+    return objectStore(STORE_NAMES.conversations, mode);
+  }
+
+  /** Most recently updated first */
+  async list(): Promise<ConversationSummary[]> {
+    const store = await this.objectStore('readonly');
+    const conversations = await promisify<Conversation[]>(store.getAll());
+    return conversations
+      .map(({ messages, ...summary }) => ({ ...summary, messageCount: messages.length }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    const store = await this.objectStore('readonly');
+    const conversation = await promisify<Conversation | undefined>(store.get(id));
+    return conversation ?? null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(conversation));
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const conversation = await this.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    await this.save({ ...conversation, title });
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.delete(id));
+  }
+}
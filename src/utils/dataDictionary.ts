@@ -0,0 +1,62 @@
+import { DataDictionaryEntry, DataDictionaryFile, ValueType } from '../types/dataDictionary';
+
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+const VALUE_TYPES: ValueType[] = ['identifier', 'categorical', 'integer', 'float', 'string', 'date', 'url'];
+
+/**
+ * Labels, descriptions, value types and coded values for the portal's
+ * variables, keyed by variable name.
+ */
+export class DataDictionary {
+  private entries: Map<string, DataDictionaryEntry> = new Map();
+  private dictionaryVersion: string = '';
+
+  static fromFile(file: DataDictionaryFile): DataDictionary {
+    if (file.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported data dictionary schema version ${file.schemaVersion} (expected ${SUPPORTED_SCHEMA_VERSION})`
+      );
+    }
+
+    const dictionary = new DataDictionary();
+    dictionary.dictionaryVersion = file.version;
+
+    Object.entries(file.variables).forEach(([name, entry]) => {
+      if (!entry.label || !VALUE_TYPES.includes(entry.type)) {
+        throw new Error(`Data dictionary entry "${name}" needs a label and one of the types ${VALUE_TYPES.join(', ')}`);
+      }
+      if (entry.years.start > entry.years.end) {
+        throw new Error(`Data dictionary entry "${name}" has years ${entry.years.start}-${entry.years.end}`);
+      }
+      dictionary.entries.set(name, entry);
+    });
+
+    return dictionary;
+  }
+
+  static async load(url: string = '/data/data_dictionary.json'): Promise<DataDictionary> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load data dictionary: ${response.statusText}`);
+    }
+    return DataDictionary.fromFile(await response.json());
+  }
+
+  get version(): string {
+    return this.dictionaryVersion;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getEntry(name: string): DataDictionaryEntry | undefined {
+    return this.entries.get(name);
+  }
+
+  /** Meaning of a coded value, or undefined when the variable isn't coded or the code is unknown */
+  describeValue(name: string, code: string | number): string | undefined {
+    return this.entries.get(name)?.values?.[String(code)];
+  }
+}
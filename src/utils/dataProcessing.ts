@@ -1,43 +1,155 @@
 import { Institution } from '../types/institution';
+import { AuditEntry, AuditRule, AuditRuleId, AuditValue, CleaningResult, DataQualityReport } from '../types/dataQuality';
+import { stateFromZip } from './geography';
 
-const preprocessData = (data: Institution[]): Institution[] => {
-  return data.filter(inst => {
-    // Remove entries with null/NaN in critical fields
-    return inst !== null &&
-           !isNaN(inst.latitude) &&
-           !isNaN(inst.longitude) &&
-           inst.inst_name !== null &&
-           inst.unitid !== null &&
-           inst.zip !== null;
+export const AUDIT_RULES: AuditRule[] = [
+  { id: 'missing-admit-rate', action: 'dropped', description: 'Admit rate is missing, NaN or zero' },
+  { id: 'missing-critical-field', action: 'dropped', description: 'Coordinates are NaN or name, unitid or ZIP is null' },
+  { id: 'invalid-coordinate', action: 'dropped', description: 'Latitude or longitude is out of range' },
+  { id: 'missing-name-or-id', action: 'dropped', description: 'Name or unitid is empty' },
+  { id: 'invalid-zip', action: 'dropped', description: 'ZIP does not start with five digits' },
+  { id: 'zip-truncated', action: 'coerced', description: 'ZIP+4 cut to five digits' },
+  { id: 'nan-to-zero', action: 'coerced', description: 'Missing count or amount set to 0' },
+  { id: 'nan-to-null', action: 'coerced', description: 'Missing home-ZIP statistic set to null' },
+  { id: 'rate-recomputed', action: 'coerced', description: 'Admit or yield rate disagreed with the counts' },
+  { id: 'missing-carnegie', action: 'coerced', description: 'Missing Carnegie classification set to 0' }
+];
+
+const ZERO_FILLED_FIELDS = [
+  'number_applied',
+  'number_admitted',
+  'number_enrolled_total',
+  'sum_average_amount',
+  'sum_total_amount',
+  'percent_of_students'
+] as const;
+const NULL_FILLED_FIELDS = ['bach_home_zip_pct', 'hhinc_home_zip_med', 'poverty_rate_home_zip'] as const;
+// Recomputed rates differing by less than this are the same rate
+const RATE_TOLERANCE = 1e-9;
+
+interface DropReason {
+  rule: AuditRuleId;
+  field: string;
+  value: unknown;
+}
+
+// Global isNaN coerces, so absent fields and non-numeric strings count as missing while null does not
+const isMissingNumber = (value: unknown): boolean => isNaN(value as number);
+
+/** JSON-safe copy of a raw value; NaN and undefined would otherwise be lost on export */
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+/** The first rule that removes a record, in the order the pipeline applies them */
+const findDropReason = (inst: Institution | null): DropReason | null => {
+  if (inst === null) {
+    return { rule: 'missing-critical-field', field: '(record)', value: null };
+  }
+  if (inst.admit_rate === null || isNaN(inst.admit_rate) || !(inst.admit_rate > 0)) {
+    return { rule: 'missing-admit-rate', field: 'admit_rate', value: inst.admit_rate };
+  }
+
+  const missingCoordinate = (['latitude', 'longitude'] as const).find(field => isNaN(inst[field]));
+  const missingField = missingCoordinate ?? (['inst_name', 'unitid', 'zip'] as const).find(field => inst[field] === null);
+  if (missingField) {
+    return { rule: 'missing-critical-field', field: missingField, value: inst[missingField] };
+  }
+
+  if (!isValidCoordinate(inst.latitude, inst.longitude)) {
+    const field = inst.latitude >= -90 && inst.latitude <= 90 ? 'longitude' : 'latitude';
+    return { rule: 'invalid-coordinate', field, value: inst[field] };
+  }
+  if (!inst.inst_name || !inst.unitid) {
+    const field = !inst.inst_name ? 'inst_name' : 'unitid';
+    return { rule: 'missing-name-or-id', field, value: inst[field] };
+  }
+  if (!isValidZipCode(inst.zip)) {
+    return { rule: 'invalid-zip', field: 'zip', value: inst.zip };
+  }
+  return null;
+};
+
+const ratesDiffer = (before: number, after: number): boolean =>
+  before === null || isNaN(before) || Math.abs(before - after) > RATE_TOLERANCE;
+
+/**
+ * Drops records the map and table can't place and normalizes the rest. Every
+ * dropped record and every rewritten value is logged in the report, with the
+ * rule responsible and the value it had before. Filled fields the dataset lacks
+ * altogether are listed once in `missingFields` rather than logged per record.
+ */
+export const cleanInstitutionData = (data: Institution[]): CleaningResult => {
+  const entries: AuditEntry[] = [];
+  const institutions: Institution[] = [];
+  const missingFields = [...ZERO_FILLED_FIELDS, ...NULL_FILLED_FIELDS].filter(field =>
+    data.length > 0 && data.every(inst => !inst || !(field in inst))
+  );
+  const missing = new Set<string>(missingFields);
+
+  data.forEach(inst => {
+    const identify = { unitid: inst?.unitid ?? null, year: inst?.year ?? null, instName: inst?.inst_name ?? null };
+
+    const dropReason = findDropReason(inst);
+    if (dropReason) {
+      entries.push({ rule: dropReason.rule, ...identify, field: dropReason.field, before: toAuditValue(dropReason.value) });
+      return;
+    }
+
+    const coerce = (rule: AuditRuleId, field: keyof Institution, before: unknown, after: unknown) => {
+      entries.push({ rule, ...identify, field, before: toAuditValue(before), after: toAuditValue(after) });
+    };
+
+    const zip = (inst.zip || "").substring(0, 5);
+    const cleaned: Institution = {
+      ...inst,
+      zip,
+      state_abbr: stateFromZip(zip),
+      admit_rate: calculateAdmitRate(inst.number_admitted, inst.number_applied),
+      yield_rate: calculateYieldRate(inst.number_enrolled_total, inst.number_admitted),
+      cc_basic_2021: inst.cc_basic_2021 || 0
+    };
+    ZERO_FILLED_FIELDS.forEach(field => {
+      if (isMissingNumber(inst[field])) cleaned[field] = 0;
+    });
+    NULL_FILLED_FIELDS.forEach(field => {
+      if (isMissingNumber(inst[field])) cleaned[field] = null;
+    });
+
+    if (zip !== inst.zip) coerce('zip-truncated', 'zip', inst.zip, zip);
+    ZERO_FILLED_FIELDS.forEach(field => {
+      if (cleaned[field] !== inst[field] && !missing.has(field)) coerce('nan-to-zero', field, inst[field], cleaned[field]);
+    });
+    NULL_FILLED_FIELDS.forEach(field => {
+      if (cleaned[field] !== inst[field] && !missing.has(field)) coerce('nan-to-null', field, inst[field], cleaned[field]);
+    });
+    (['admit_rate', 'yield_rate'] as const).forEach(field => {
+      if (ratesDiffer(inst[field], cleaned[field])) coerce('rate-recomputed', field, inst[field], cleaned[field]);
+    });
+    if (cleaned.cc_basic_2021 !== inst.cc_basic_2021) {
+      coerce('missing-carnegie', 'cc_basic_2021', inst.cc_basic_2021, cleaned.cc_basic_2021);
+    }
+
+    institutions.push(cleaned);
   });
+
+  return {
+    institutions,
+    report: { inputCount: data.length, outputCount: institutions.length, entries, missingFields }
+  };
 };
 
-export const cleanInstitutionData = (data: Institution[]): Institution[] => {
-  // First preprocess to remove null/NaN entries
-  const preprocessed = preprocessData(data);
-  
-  return preprocessed.filter(inst => (
-    isValidCoordinate(inst.latitude, inst.longitude) &&
-    inst.inst_name &&
-    inst.unitid &&
-    isValidZipCode(inst.zip)
-  )).map(inst => ({
-    ...inst,
-    zip: (inst.zip || "").substring(0, 5),
-    number_applied: isNaN(inst.number_applied) ? 0 : inst.number_applied,
-    number_admitted: isNaN(inst.number_admitted) ? 0 : inst.number_admitted,
-    number_enrolled_total: isNaN(inst.number_enrolled_total) ? 0 : inst.number_enrolled_total,
-    admit_rate: calculateAdmitRate(inst.number_admitted, inst.number_applied),
-    yield_rate: calculateYieldRate(inst.number_enrolled_total, inst.number_admitted),
-    sum_average_amount: isNaN(inst.sum_average_amount) ? 0 : inst.sum_average_amount,
-    sum_total_amount: isNaN(inst.sum_total_amount) ? 0 : inst.sum_total_amount,
-    percent_of_students: isNaN(inst.percent_of_students) ? 0 : inst.percent_of_students,
-    bach_home_zip_pct: isNaN(inst.bach_home_zip_pct) ? null : inst.bach_home_zip_pct,
-    hhinc_home_zip_med: isNaN(inst.hhinc_home_zip_med) ? null : inst.hhinc_home_zip_med,
-    poverty_rate_home_zip: isNaN(inst.poverty_rate_home_zip) ? null : inst.poverty_rate_home_zip,
-    cc_basic_2021: inst.cc_basic_2021 || 0
+/** Entry counts per rule, in pipeline order, including rules that never fired */
+export const summarizeReport = (report: DataQualityReport): Array<AuditRule & { count: number }> =>
+  AUDIT_RULES.map(rule => ({
+    ...rule,
+    count: report.entries.filter(entry => entry.rule === rule.id).length
   }));
-};
 
 const calculateAdmitRate = (admitted: number, applied: number): number => {
   if (applied === 0 || isNaN(applied) || isNaN(admitted)) return 0;
@@ -50,11 +162,11 @@ const calculateYieldRate = (enrolled: number, admitted: number): number => {
 };
 
 const isValidCoordinate = (lat: number, lng: number): boolean => {
-  return !isNaN(lat) && !isNaN(lng) && 
-         lat >= -90 && lat <= 90 && 
+  return !isNaN(lat) && !isNaN(lng) &&
+         lat >= -90 && lat <= 90 &&
          lng >= -180 && lng <= 180;
 };
 
 const isValidZipCode = (zip: string): boolean => {
   return /^\d{5}/.test(zip);
-};
\ No newline at end of file
+};
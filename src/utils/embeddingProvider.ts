@@ -0,0 +1,159 @@
+import { OpenAI } from 'openai';
+import { fnv1a } from './hash';
+
+export interface EmbeddingProvider {
+  /** Model name; the shipped node index was built with text-embedding-ada-002 */
+  readonly model: string;
+  /** Vector length, when known up front */
+  readonly dimension: number | null;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export const PRECOMPUTED_EMBEDDING_MODEL = 'text-embedding-ada-002';
+
+const KNOWN_DIMENSIONS: { [model: string]: number } = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072
+};
+
+interface OpenAICompatibleOptions {
+  baseURL?: string;
+  apiKey?: string;
+  model: string;
+  dimension?: number;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number | null;
+  private client: OpenAI;
+
+  constructor({ baseURL, apiKey, model, dimension }: OpenAICompatibleOptions) {
+    // Self-hosted servers usually ignore the key, but the SDK insists on one.
+    // The SDK refuses to run in a browser, which keeps real keys server-side.
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' });
+    this.model = model;
+    this.dimension = dimension ?? KNOWN_DIMENSIONS[model] ?? null;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.client.embeddings.create(
+      { input: texts, model: this.model },
+      { signal }
+    );
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export class OpenAIEmbeddingProvider extends OpenAICompatibleEmbeddingProvider {
+  constructor(apiKey: string, model: string = PRECOMPUTED_EMBEDDING_MODEL) {
+    super({ apiKey, model });
+  }
+}
+
+/**
+ * Embeds through the /api/embeddings function, so the browser never holds an
+ * API key. `model` should name the model the function is configured with.
+ */
+export class ServerEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number | null;
+
+  constructor(model: string = PRECOMPUTED_EMBEDDING_MODEL, private readonly endpoint: string = '/api/embeddings') {
+    this.model = model;
+    this.dimension = KNOWN_DIMENSIONS[model] ?? null;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input: texts }),
+      signal
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(payload.error || `Embedding request failed: ${response.statusText}`);
+    }
+    return payload.data;
+  }
+}
+
+/**
+ * Serves vectors computed ahead of time, keyed by the exact text. Lets the
+ * retrieval evaluation query the shipped ada index without network access.
+ */
+export class PrecomputedEmbeddingProvider implements EmbeddingProvider {
+  readonly dimension: number | null;
+
+  constructor(readonly model: string, private readonly vectors: { [text: string]: number[] }) {
+    const first = Object.values(vectors)[0];
+    this.dimension = first ? first.length : null;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = this.vectors[text];
+      if (!vector) {
+        throw new Error(`No precomputed ${this.model} embedding for "${text}"`);
+      }
+      return vector;
+    });
+  }
+}
+
+/**
+ * Offline embedder: hashes word tokens and padded character n-grams into a
+ * fixed number of signed buckets. Identifiers are split on underscores, so
+ * "cc_basic_2021" shares features with "basic" and "2021". Deterministic and
+ * network-free, which makes it suitable for tests and for running retrieval
+ * without an API key, at the cost of matching on spelling rather than meaning.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimension: number = 512, private readonly ngramSize: number = 3) {
+    this.model = `hashed-ngram-${ngramSize}-${dimension}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector: number[] = new Array(this.dimension).fill(0);
+    const tokens = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+    tokens.forEach(token => {
+      this.addFeature(vector, `w:${token}`, 1);
+      const padded = `<${token}>`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        this.addFeature(vector, `g:${padded.slice(i, i + this.ngramSize)}`, 0.5);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimension] += sign * weight;
+  }
+}
+
+interface EmbeddingEnv {
+  provider?: string;
+  model?: string;
+}
+
+export function createEmbeddingProvider({ provider, model }: EmbeddingEnv): EmbeddingProvider {
+  if (provider === 'local') {
+    return new HashedNgramEmbeddingProvider();
+  }
+  return new ServerEmbeddingProvider(model || PRECOMPUTED_EMBEDDING_MODEL);
+}
@@ -0,0 +1,42 @@
+import { CatalogEndpoint, EndpointCatalogFile } from '../types/apiRequest';
+
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+/** Education Data Portal endpoints the request builder knows how to call */
+export class EndpointCatalog {
+  private endpoints: Map<string, CatalogEndpoint> = new Map();
+  readonly baseUrl: string;
+
+  private constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  static fromFile(file: EndpointCatalogFile): EndpointCatalog {
+    if (file.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported endpoint catalog schema version ${file.schemaVersion} (expected ${SUPPORTED_SCHEMA_VERSION})`
+      );
+    }
+
+    const catalog = new EndpointCatalog(file.baseUrl);
+    Object.entries(file.endpoints).forEach(([id, endpoint]) => {
+      if (endpoint.years.start > endpoint.years.end) {
+        throw new Error(`Endpoint "${id}" has years ${endpoint.years.start}-${endpoint.years.end}`);
+      }
+      catalog.endpoints.set(id, endpoint);
+    });
+    return catalog;
+  }
+
+  static async load(url: string = '/data/endpoint_catalog.json'): Promise<EndpointCatalog> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load endpoint catalog: ${response.statusText}`);
+    }
+    return EndpointCatalog.fromFile(await response.json());
+  }
+
+  getEndpoint(id: string): CatalogEndpoint | undefined {
+    return this.endpoints.get(id);
+  }
+}
@@ -0,0 +1,21 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV: fields holding commas, quotes or newlines are quoted */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n');
+
+export const downloadFile = (content: string, filename: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,129 @@
+import { Institution } from '../types/institution';
+import {
+  Combinator,
+  FilterableField,
+  FilterCondition,
+  FilterGroup,
+  FilterTree,
+  NumericRange,
+  PovertyBand,
+  SearchFilters
+} from '../types/institutionFilter';
+import { getClassification, matchesCarnegieGroups } from './carnegie';
+import { FILTER_FIELDS, describeFilter, matchesFilter } from './queryFilter';
+
+export const POVERTY_BANDS: Array<{ id: PovertyBand; label: string; range: NumericRange }> = [
+  { id: 'low', label: 'Under 10%', range: { max: 0.1 } },
+  { id: 'moderate', label: '10–20%', range: { min: 0.1, max: 0.2 } },
+  // The Census Bureau calls 20% and up a poverty area, 40% and up extreme poverty
+  { id: 'high', label: '20–40%', range: { min: 0.2, max: 0.4 } },
+  { id: 'extreme', label: '40% and over', range: { min: 0.4 } }
+];
+
+/** Poverty bands can only match when the loaded snapshot has home-ZIP poverty rates */
+export const hasPovertyRates = (institutions: Institution[]): boolean =>
+  institutions.some(inst => inst.poverty_rate_home_zip !== null && !isNaN(inst.poverty_rate_home_zip));
+
+let nextId = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${nextId++}`;
+
+export const createCondition = (kind: FilterCondition['kind'], field?: FilterableField): FilterCondition => {
+  switch (kind) {
+    case 'range': return { id: newId('condition'), kind, field: field ?? 'admit_rate', range: {} };
+    case 'state': return { id: newId('condition'), kind, states: [] };
+    case 'carnegie': return { id: newId('condition'), kind, field: 'cc_basic_2021', groups: [] };
+    case 'poverty': return { id: newId('condition'), kind, bands: [] };
+  }
+};
+
+export const createGroup = (combinator: Combinator = 'and'): FilterGroup =>
+  ({ id: newId('group'), combinator, conditions: [] });
+
+export const createTree = (): FilterTree => ({ combinator: 'and', groups: [createGroup()] });
+
+/** Conditions still being filled in (no bounds, nothing picked) are left out rather than matching everything */
+export const isActiveCondition = (condition: FilterCondition): boolean => {
+  switch (condition.kind) {
+    case 'range': return condition.range.min !== undefined || condition.range.max !== undefined;
+    case 'state': return condition.states.length > 0;
+    case 'carnegie': return condition.groups.length > 0;
+    case 'poverty': return condition.bands.length > 0;
+  }
+};
+
+const inBand = (value: number, { min, max }: NumericRange) =>
+  (min === undefined || value >= min) && (max === undefined || value < max);
+
+export const matchesCondition = (condition: FilterCondition) => {
+  switch (condition.kind) {
+    case 'range':
+      return matchesFilter({ ranges: { [condition.field]: condition.range } });
+    case 'state':
+      return matchesFilter({ states: condition.states, ranges: {} });
+    case 'carnegie':
+      return (inst: Institution) => matchesCarnegieGroups(inst, condition.field, condition.groups);
+    case 'poverty': {
+      const bands = POVERTY_BANDS.filter(band => condition.bands.includes(band.id));
+      return (inst: Institution) => {
+        const rate = inst.poverty_rate_home_zip;
+        return rate !== null && !isNaN(rate) && bands.some(band => inBand(rate, band.range));
+      };
+    }
+  }
+};
+
+const combine = (combinator: Combinator, predicates: Array<(inst: Institution) => boolean>) =>
+  (inst: Institution) => combinator === 'and'
+    ? predicates.every(predicate => predicate(inst))
+    : predicates.some(predicate => predicate(inst));
+
+const isActiveGroup = (group: FilterGroup) => group.conditions.some(isActiveCondition);
+
+/** Like a tree, a group with no complete conditions matches every institution */
+export const matchesGroup = (group: FilterGroup) =>
+  isActiveGroup(group)
+    ? combine(group.combinator, group.conditions.filter(isActiveCondition).map(matchesCondition))
+    : () => true;
+
+export const isEmptyTree = (tree: FilterTree): boolean => !tree.groups.some(isActiveGroup);
+
+export const matchesTree = (tree: FilterTree) => {
+  const groups = tree.groups.filter(isActiveGroup);
+  return groups.length === 0 ? () => true : combine(tree.combinator, groups.map(matchesGroup));
+};
+
+export const createSearchFilters = (): SearchFilters =>
+  ({ search: '', admitRate: '', categories: [], sizes: [], advanced: createTree() });
+
+/** The Colleges search bar: name search, admission rate, Carnegie groups and the advanced tree */
+export const matchesSearchFilters = ({ search, admitRate, categories, sizes, advanced }: SearchFilters) => {
+  const term = search.toLowerCase();
+  const matchesAdvanced = matchesTree(advanced);
+  return (inst: Institution) =>
+    (term === '' || inst.inst_name.toLowerCase().includes(term)) &&
+    (!admitRate || (admitRate === 'selective' ? inst.admit_rate * 100 <= 30 : inst.admit_rate * 100 > 30)) &&
+    matchesCarnegieGroups(inst, 'cc_basic_2021', categories) &&
+    matchesCarnegieGroups(inst, 'cc_size_setting_2021', sizes) &&
+    matchesAdvanced(inst);
+};
+
+/** Short phrase for a condition, e.g. "Admission rate ≤ 30%" */
+export function describeCondition(condition: FilterCondition): string {
+  switch (condition.kind) {
+    case 'range':
+      return describeFilter({ ranges: { [condition.field]: condition.range } })[0] ?? `${FILTER_FIELDS[condition.field].label}: any`;
+    case 'state':
+      return describeFilter({ states: condition.states, ranges: {} })[0] ?? 'State: any';
+    case 'carnegie': {
+      const classification = getClassification(condition.field);
+      const labels = classification.groups
+        .filter(group => condition.groups.includes(group.id))
+        .map(group => group.label);
+      return `${classification.label}: ${labels.join(', ') || 'any'}`;
+    }
+    case 'poverty': {
+      const labels = POVERTY_BANDS.filter(band => condition.bands.includes(band.id)).map(band => band.label);
+      return `Home-ZIP poverty rate: ${labels.join(', ') || 'any'}`;
+    }
+  }
+}
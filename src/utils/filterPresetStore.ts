@@ -0,0 +1,25 @@
+import { FilterPreset } from '../types/institutionFilter';
+import { objectStore, promisify, STORE_NAMES } from './indexedDb';
+
+/**
+ * Named filter trees kept in IndexedDB, so standard peer group definitions
+ * can be reapplied. Saving under an existing name replaces that preset.
+ */
+export class FilterPresetStore {
+  /** Alphabetical by name */
+  async list(): Promise<FilterPreset[]> {
+    const store = await objectStore(STORE_NAMES.filterPresets, 'readonly');
+    const presets = await promisify<FilterPreset[]>(store.getAll());
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(preset: FilterPreset): Promise<void> {
+    const store = await objectStore(STORE_NAMES.filterPresets, 'readwrite');
+    await promisify(store.put(preset));
+  }
+
+  async delete(name: string): Promise<void> {
+    const store = await objectStore(STORE_NAMES.filterPresets, 'readwrite');
+    await promisify(store.delete(name));
+  }
+}
@@ -0,0 +1,108 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+}
+
+interface LayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+  /** Positions from a previous layout; kept as starting points so the graph doesn't jump */
+  initial?: Map<string, Point>;
+  /** Drawn radius of each node, kept inside the bounds along with its center; 0 by default */
+  nodeRadius?: (id: string) => number;
+}
+
+/**
+ * Fruchterman-Reingold layout: nodes repel each other, links pull their ends
+ * together, and the step size cools each iteration. Deterministic, so the same
+ * subgraph always lays out the same way. Fine for the few dozen nodes a
+ * retrieval returns; not meant for the whole graph.
+ */
+export function forceLayout(ids: string[], links: LayoutLink[], options: LayoutOptions): Map<string, Point> {
+  const { width, height, iterations = 300, initial, nodeRadius = () => 0 } = options;
+  const positions = new Map<string, Point>();
+  if (ids.length === 0) return positions;
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) / 3;
+  ids.forEach((id, index) => {
+    const previous = initial?.get(id);
+    const angle = (2 * Math.PI * index) / ids.length;
+    positions.set(id, previous
+      ? { ...previous }
+      : { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+
+  const k = Math.sqrt((width * height) / ids.length) * 0.6;
+  const validLinks = links.filter(link => positions.has(link.source) && positions.has(link.target));
+  let temperature = width / 10;
+
+  // A node too big for the bounds sits at their middle
+  const clamp = (value: number, margin: number, size: number) =>
+    margin * 2 >= size ? size / 2 : Math.min(Math.max(value, margin), size - margin);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map<string, Point>(ids.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i])!;
+        const b = positions.get(ids[j])!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        // Nudge coincident nodes apart in a fixed direction
+        if (dx === 0 && dy === 0) {
+          dx = 0.01 * (i + 1);
+          dy = 0.01 * (j + 1);
+        }
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        const da = displacement.get(ids[i])!;
+        const db = displacement.get(ids[j])!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    validLinks.forEach(({ source, target }) => {
+      const a = positions.get(source)!;
+      const b = positions.get(target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = (distance * distance) / k;
+      const da = displacement.get(source)!;
+      const db = displacement.get(target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+
+    ids.forEach(id => {
+      const position = positions.get(id)!;
+      const { x, y } = displacement.get(id)!;
+      const length = Math.sqrt(x * x + y * y) || 1;
+      const step = Math.min(length, temperature);
+      // A weak pull to the center keeps disconnected pieces on screen
+      position.x += (x / length) * step + (centerX - position.x) * 0.01;
+      position.y += (y / length) * step + (centerY - position.y) * 0.01;
+      const margin = nodeRadius(id);
+      position.x = clamp(position.x, margin, width);
+      position.y = clamp(position.y, margin, height);
+    });
+
+    temperature = Math.max(temperature * 0.97, 0.5);
+  }
+
+  return positions;
+}
@@ -1,198 +1,475 @@
-import { OpenAI } from 'openai';
+import { CacheHit, EmbeddingIndexManifest, NodeDetails, NodeRelationship } from '../types/knowledgeGraph';
+import { GraphStore } from './graphStore';
+import { DataDictionary } from './dataDictionary';
+import { VectorStore } from './vectorStore';
+import { LexicalIndex } from './lexicalIndex';
+import { DEFAULT_RRF_K, reciprocalRankFusion } from './rankFusion';
+import { EmbeddingProvider, ServerEmbeddingProvider, PRECOMPUTED_EMBEDDING_MODEL } from './embeddingProvider';
+import { postEventStream } from './sse';
+import { CacheLimits, normalizeQuery, QueryCache } from './queryCache';
+import { STORE_NAMES } from './indexedDb';
 
-interface NodeDetails {
+export interface RetrievalOptions {
+  seedCount: number;
+  hops: number;
+  edgeTypes?: string[];
+  hopDecay: number;
+  maxNodes: number;
+  /** Share of the fused seed ranking given to lexical matches (0 = vector only, 1 = lexical only) */
+  lexicalWeight: number;
+  rrfK: number;
+  /** Also ask the chat function for a standalone answer over the retrieved nodes */
+  generateResponse: boolean;
+}
+
+export interface KnowledgeGraphResult {
+  relevantNodes: NodeDetails[];
+  /** Retrieved nodes and paths formatted as instructions for a model */
+  context: string;
+  enhancedResponse?: string;
+  cacheHit: CacheHit;
+}
+
+export interface GraphRAGCacheOptions {
+  embeddings: CacheLimits;
+  retrievals: CacheLimits;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_OPTIONS: GraphRAGCacheOptions = {
+  // Query vectors only change with the model, which is part of the key
+  embeddings: { ttlMs: 7 * 24 * HOUR_MS, maxEntries: 500 },
+  retrievals: { ttlMs: HOUR_MS, maxEntries: 100 }
+};
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  seedCount: 5,
+  hops: 2,
+  hopDecay: 0.5,
+  maxNodes: 10,
+  lexicalWeight: 0.5,
+  rrfK: DEFAULT_RRF_K,
+  generateResponse: false
+};
+
+interface SeedNode {
   name: string;
-  label: string;
-  format: string;
-  type: string;
   similarity: number;
-  relationships: Array<{
-    type: string;
-    target: string;
-  }>;
+  exactMatch: boolean;
 }
 
-interface Neo4jRelationship {
-  type: string;
-  target: string;
-}
+// Each ranking contributes at least this many candidates to fusion (four per seed when that is more)
+const MIN_FUSION_CANDIDATES = 20;
+
+// Longer code lists (e.g. Carnegie classes) stay in the node details instead of the prompt
+const MAX_CONTEXT_VALUES = 12;
+
+// Node texts per embedding request when building the in-memory index; /api/embeddings takes up to 128
+const EMBEDDING_BATCH_SIZE = 100;
+
+const INDEX_MANIFEST_URL = '/data/node_embeddings_manifest.json';
+
+// A missing manifest (or the dev server's HTML fallback in its place) means the index can't be trusted
+const loadIndexManifest = async (): Promise<EmbeddingIndexManifest | null> => {
+  try {
+    const response = await fetch(INDEX_MANIFEST_URL);
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
 
 export class GraphRAGClient {
-  private openai: OpenAI;
-  private nodeEmbeddings: { [key: string]: number[] };
-  private nodeNames: string[];
+  private chatEndpoint: string;
+  private embeddingProvider: EmbeddingProvider;
+  private vectorStore: VectorStore | null = null;
+  private graphStore: GraphStore | null = null;
+  private dictionary: DataDictionary | null = null;
+  private lexicalIndex: LexicalIndex | null = null;
   private initialized: boolean = false;
+  private embeddingCache: QueryCache<number[]> | null = null;
+  private retrievalCache: QueryCache<Omit<KnowledgeGraphResult, 'cacheHit'>> | null = null;
+  private indexVersion: string = '';
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
-    this.nodeEmbeddings = {};
-    this.nodeNames = [];
+  constructor(
+    embeddingProvider: EmbeddingProvider = new ServerEmbeddingProvider(),
+    chatEndpoint: string = '/api/chat',
+    cacheOptions: GraphRAGCacheOptions | false = DEFAULT_CACHE_OPTIONS
+  ) {
+    this.embeddingProvider = embeddingProvider;
+    this.chatEndpoint = chatEndpoint;
+    if (cacheOptions) {
+      this.embeddingCache = new QueryCache(cacheOptions.embeddings, STORE_NAMES.embeddingCache);
+      this.retrievalCache = new QueryCache(cacheOptions.retrievals, STORE_NAMES.retrievalCache);
+    }
   }
 
   private async loadData() {
     try {
-      // Load pre-computed node embeddings
-      const nodeEmbeddingsResponse = await fetch('/data/node_embeddings.json');
-      if (!nodeEmbeddingsResponse.ok) {
-        throw new Error(`Failed to load node embeddings: ${nodeEmbeddingsResponse.statusText}`);
-      }
-      this.nodeEmbeddings = await nodeEmbeddingsResponse.json();
-      
-      // Load node names
-      const nodeNamesResponse = await fetch('/data/node_names.txt');
-      if (!nodeNamesResponse.ok) {
-        throw new Error(`Failed to load node names: ${nodeNamesResponse.statusText}`);
+      // The shipped node vectors are only used when its manifest shows they were built with
+      // this model from the current node texts; otherwise an in-memory index is built from them
+      const [graphStore, dictionary, manifest] = await Promise.all([
+        GraphStore.load(),
+        DataDictionary.load(),
+        loadIndexManifest()
+      ]);
+      // Descriptions are part of the fingerprint; annotating again in useStores changes nothing
+      graphStore.annotate(dictionary);
+      if (
+        manifest?.model === this.embeddingProvider.model &&
+        manifest.fingerprint === graphStore.getEmbeddingFingerprint()
+      ) {
+        await this.useStores(graphStore, dictionary, await VectorStore.load());
+      } else {
+        await this.useStores(graphStore, dictionary);
       }
-      const nodeNamesText = await nodeNamesResponse.text();
-      this.nodeNames = nodeNamesText.split('\n').filter(Boolean);
-      
-      this.initialized = true;
     } catch (error) {
       console.error('Error loading GraphRAG data:', error);
       throw error;
     }
   }
 
+  private async useStores(graphStore: GraphStore, dictionary: DataDictionary, vectorStore?: VectorStore) {
+    const undocumented = graphStore.annotate(dictionary);
+    if (undocumented.length > 0) {
+      console.warn(`Data dictionary ${dictionary.version} has no entry for: ${undocumented.join(', ')}`);
+    }
+    this.graphStore = graphStore;
+    this.dictionary = dictionary;
+    this.vectorStore = vectorStore ?? await this.buildVectorStore(graphStore);
+    this.lexicalIndex = this.buildLexicalIndex(graphStore);
+    // Cached retrievals are only valid for the graph and index they came from
+    this.indexVersion = [
+      graphStore.version,
+      dictionary.version,
+      this.vectorStore.backend,
+      this.vectorStore.size,
+      this.embeddingProvider.model
+    ].join('|');
+
+    if (this.embeddingProvider.dimension !== null) {
+      this.assertDimension(this.embeddingProvider.dimension);
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Builds a client over stores loaded elsewhere, e.g. from disk by the
+   * evaluation script. Without a vector store, node descriptions are embedded
+   * with `embeddingProvider` as in loadData.
+   */
+  static async fromStores(
+    embeddingProvider: EmbeddingProvider,
+    graphStore: GraphStore,
+    dictionary: DataDictionary,
+    vectorStore?: VectorStore
+  ): Promise<GraphRAGClient> {
+    const client = new GraphRAGClient(embeddingProvider);
+    await client.useStores(graphStore, dictionary, vectorStore);
+    return client;
+  }
+
   async ensureInitialized() {
     if (!this.initialized) {
       await this.loadData();
     }
   }
 
-  private async queryFaissIndex(queryEmbedding: number[], k: number = 5): Promise<{ name: string; similarity: number; }[]> {
-    // Compute cosine similarities between query and all node embeddings
-    const similarities = Object.entries(this.nodeEmbeddings).map(([name, embedding]) => {
-      const similarity = this.cosineSimilarity(queryEmbedding, embedding);
-      return { name, similarity };
-    });
+  private async buildVectorStore(graphStore: GraphStore): Promise<VectorStore> {
+    const nodes = graphStore.getNodes();
+    const embeddings: { [key: string]: number[] } = {};
+    for (let start = 0; start < nodes.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = nodes.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const vectors = await this.embeddingProvider.embed(batch.map(node => graphStore.getEmbeddingText(node.id)));
+      batch.forEach((node, index) => {
+        embeddings[node.id] = vectors[index];
+      });
+    }
+    return VectorStore.fromEmbeddings(embeddings, 'memory');
+  }
 
-    // Sort by similarity and get top k results
-    return similarities
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, k);
+  private buildLexicalIndex(graphStore: GraphStore): LexicalIndex {
+    return new LexicalIndex(
+      graphStore.getNodes().map(node => ({
+        id: node.id,
+        // Topic names are plain words rather than identifiers anyone would type
+        identifier: node.kind === 'topic' ? undefined : node.name,
+        name: node.name,
+        text: [graphStore.getLabel(node.id), node.description || '']
+      }))
+    );
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const normA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const normB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    return dotProduct / (normA * normB);
+  private assertDimension(dimension: number) {
+    if (this.vectorStore && dimension !== this.vectorStore.dimension) {
+      throw new Error(
+        `Embedding model "${this.embeddingProvider.model}" produces ${dimension}-dimensional vectors, ` +
+        `but the loaded ${this.vectorStore.backend} index has ${this.vectorStore.dimension} dimensions. ` +
+        `Use the model the index was built with (${PRECOMPUTED_EMBEDDING_MODEL}) or rebuild the index.`
+      );
+    }
   }
 
-  private async fetchNodeDetails(nodeName: string): Promise<Partial<NodeDetails>> {
-    // In a real implementation, this would query a database
-    // For now, we'll generate some sample details
-    return {
-      name: nodeName,
-      label: `${nodeName.replace(/_/g, ' ')} field`,
-      format: this.inferFormat(nodeName),
-      type: 'Variable'
-    };
+  private async embedQuery(query: string, signal?: AbortSignal): Promise<{ embedding: number[]; cached: boolean }> {
+    const key = `${this.embeddingProvider.model}|${normalizeQuery(query)}`;
+    const cached = await this.embeddingCache?.get(key);
+    if (cached) {
+      return { embedding: cached, cached: true };
+    }
+
+    const [embedding] = await this.embeddingProvider.embed([query], signal);
+    await this.embeddingCache?.set(key, embedding);
+    return { embedding, cached: false };
   }
 
-  private inferFormat(nodeName: string): string {
-    if (nodeName.includes('pct') || nodeName.includes('rate')) return 'percentage';
-    if (nodeName.includes('date') || nodeName.includes('year')) return 'date';
-    if (nodeName.includes('id')) return 'identifier';
-    if (nodeName.includes('name')) return 'string';
-    if (nodeName.includes('count') || nodeName.includes('number')) return 'numeric';
-    return 'string';
-  }
-
-  private async fetchRelationships(nodeName: string): Promise<Neo4jRelationship[]> {
-    // In a real implementation, this would query Neo4j
-    // For now, we'll generate sample relationships based on node name
-    const relationships: Neo4jRelationship[] = [];
-    
-    // Add EXISTS_IN relationship for all nodes
-    relationships.push({
-      type: 'EXISTS_IN',
-      target: 'directory'
-    });
+  private async queryFaissIndex(queryEmbedding: number[], k: number = 5): Promise<{ name: string; similarity: number; }[]> {
+    if (!this.vectorStore) {
+      throw new Error('Vector index not loaded');
+    }
+    return this.vectorStore.search(queryEmbedding, k);
+  }
 
-    // Add PROVIDED_BY relationship for all nodes
-    relationships.push({
-      type: 'PROVIDED_BY',
-      target: 'ipeds'
-    });
+  /**
+   * Fuses the vector and lexical rankings with reciprocal rank fusion. Nodes
+   * whose code-like or quoted identifier appears in the query are always
+   * placed first; plain words go through fusion like any other term.
+   */
+  private async findSeedNodes(query: string, queryEmbedding: number[], settings: RetrievalOptions): Promise<SeedNode[]> {
+    if (!this.vectorStore || !this.lexicalIndex) {
+      throw new Error('Retrieval indexes not loaded');
+    }
 
-    // Add specific relationships based on node name
-    if (nodeName.includes('_id')) {
-      relationships.push({
-        type: 'IDENTIFIES',
-        target: nodeName.replace('_id', '')
-      });
+    // The node index is small, so every node gets a similarity for expansion
+    const vectorResults = await this.queryFaissIndex(queryEmbedding, this.vectorStore.size);
+    const similarities = new Map(vectorResults.map(({ name, similarity }) => [name, similarity]));
+
+    const candidates = Math.max(settings.seedCount * 4, MIN_FUSION_CANDIDATES);
+    const lexicalWeight = Math.min(Math.max(settings.lexicalWeight, 0), 1);
+    const fused = reciprocalRankFusion([
+      { ids: vectorResults.slice(0, candidates).map(result => result.name), weight: 1 - lexicalWeight },
+      { ids: this.lexicalIndex.search(query, candidates).map(result => result.id), weight: lexicalWeight }
+    ], settings.rrfK);
+
+    const exactMatches = this.lexicalIndex.exactMatches(query);
+    const ordered = [...exactMatches, ...fused.map(result => result.id).filter(id => !exactMatches.includes(id))];
+
+    return ordered
+      .slice(0, Math.max(settings.seedCount, exactMatches.length))
+      .map(name => ({
+        name,
+        similarity: similarities.get(name) ?? 0,
+        exactMatch: exactMatches.includes(name)
+      }));
+  }
+
+  private async fetchNodeDetails(nodeId: string): Promise<Partial<NodeDetails>> {
+    const node = this.graphStore?.getNode(nodeId);
+    const entry = this.dictionary?.getEntry(node?.name ?? nodeId);
+    if (!node) {
+      return {
+        name: nodeId,
+        label: entry?.label || nodeId.replace(/_/g, ' '),
+        format: entry?.type || 'unknown',
+        type: 'variable',
+        description: entry?.description
+      };
+    }
+
+    if (node.kind !== 'variable') {
+      return {
+        name: node.name,
+        label: this.graphStore!.getLabel(node.id),
+        format: node.kind,
+        type: node.kind,
+        path: node.path,
+        description: node.description
+      };
     }
 
-    return relationships;
+    return {
+      name: node.name,
+      label: this.graphStore!.getLabel(node.id),
+      format: entry?.type || 'unknown',
+      type: node.kind,
+      path: node.path,
+      description: node.description,
+      values: entry?.values,
+      endpoint: entry?.endpoint,
+      years: entry?.years
+    };
+  }
+
+  private async fetchRelationships(nodeId: string): Promise<NodeRelationship[]> {
+    return this.graphStore?.getRelationships(nodeId) || [];
   }
 
   private async formatNodeDetails(
-    nodeName: string,
-    similarity: number,
+    nodeId: string,
+    ranking: Pick<NodeDetails, 'similarity' | 'score' | 'hops' | 'exactMatch' | 'via'>,
     details: Partial<NodeDetails>,
-    relationships: Neo4jRelationship[]
+    relationships: NodeRelationship[]
   ): Promise<NodeDetails> {
     return {
-      name: nodeName,
-      label: details.label || nodeName,
+      id: nodeId,
+      name: details.name || nodeId,
+      label: details.label || nodeId,
       format: details.format || 'string',
-      type: details.type || 'Variable',
-      similarity,
+      type: details.type || 'variable',
+      path: details.path,
+      description: details.description,
+      values: details.values,
+      endpoint: details.endpoint,
+      years: details.years,
+      ...ranking,
       relationships
     };
   }
 
-  async queryKnowledgeGraph(query: string): Promise<{
-    relevantNodes: NodeDetails[];
-    enhancedResponse: string;
-  }> {
+  /** Details and relationships of any graph node, for browsing beyond the retrieved set */
+  async describeNode(nodeId: string): Promise<NodeDetails | null> {
+    await this.ensureInitialized();
+    if (!this.graphStore?.getNode(nodeId)) return null;
+
+    const details = await this.fetchNodeDetails(nodeId);
+    const relationships = await this.fetchRelationships(nodeId);
+    return this.formatNodeDetails(nodeId, { similarity: 0, score: 0, hops: 0 }, details, relationships);
+  }
+
+  private rankNodes(
+    seeds: SeedNode[],
+    settings: RetrievalOptions
+  ): Array<Pick<NodeDetails, 'id' | 'similarity' | 'score' | 'hops' | 'exactMatch' | 'via'>> {
+    // An exact identifier match is certain regardless of how the embedding scored it
+    const ranked = seeds.map(({ name, similarity, exactMatch }) => ({
+      id: name,
+      similarity,
+      score: exactMatch ? 1 : similarity,
+      hops: 0,
+      exactMatch
+    }));
+    if (!this.graphStore || settings.hops <= 0) {
+      return ranked;
+    }
+
+    // Seeds always make the cut; expanded neighbors fill the remaining slots
+    const seedIds = new Set(seeds.map(seed => seed.name));
+    const expanded = this.graphStore
+      .expandNeighborhood(ranked.map(({ id, score }) => ({ id, similarity: score })), settings)
+      .filter(node => !seedIds.has(node.id))
+      .slice(0, Math.max(settings.maxNodes - ranked.length, 0))
+      .map(({ id, score, hops, seedSimilarity, via }) => ({ id, similarity: seedSimilarity, score, hops, via }));
+
+    return [...ranked, ...expanded];
+  }
+
+  private async completeChat(system: string, message: string, signal?: AbortSignal): Promise<string> {
+    let text = '';
+    for await (const { event, data } of postEventStream(this.chatEndpoint, { system, message }, signal)) {
+      if (event === 'delta') {
+        text += (data as { text: string }).text;
+      }
+    }
+    return text;
+  }
+
+  private describeForContext(node: NodeDetails): string[] {
+    const lines: string[] = [];
+    if (node.description) {
+      lines.push(node.description);
+    }
+    if (node.type === 'variable' && node.years) {
+      lines.push(`Type: ${node.format}; available ${node.years.start}-${node.years.end}`);
+    }
+    const codes = Object.entries(node.values || {});
+    if (codes.length > 0 && codes.length <= MAX_CONTEXT_VALUES) {
+      lines.push(`Codes: ${codes.map(([code, meaning]) => `${code} = ${meaning}`).join('; ')}`);
+    }
+    return lines;
+  }
+
+  private buildGraphContext(nodes: NodeDetails[]): string {
+    const lines = nodes.flatMap((node, index) => {
+      const header = `[${index + 1}] ${node.label} (${node.type}, id: ${node.id})`;
+      const match = node.via
+        ? `${header} score ${node.score.toFixed(2)}, ${node.hops} hop(s) from a seed via: ${node.via.description}`
+        : node.exactMatch
+          ? `${header} exact identifier match`
+          : `${header} seed match, similarity ${node.similarity.toFixed(2)}`;
+      return [match, ...this.describeForContext(node).map(line => `    ${line}`)];
+    });
+
+    return [
+      'The following nodes were retrieved for this question from a knowledge graph of the Urban Institute',
+      'Education Data Portal documentation. Ground your answer in them and name the variables, endpoints and',
+      'sources you rely on. Seed nodes matched the question directly; the other nodes were reached by walking',
+      'the graph, and their path shows how they connect to a seed.',
+      'Cite a node right after the sentence that relies on it using its number in brackets, e.g. [2] or [1, 3].',
+      'Only cite nodes you actually used.',
+      '',
+      'Relevant nodes:',
+      ...lines
+    ].join('\n');
+  }
+
+  async queryKnowledgeGraph(
+    query: string,
+    options: Partial<RetrievalOptions> = {},
+    signal?: AbortSignal
+  ): Promise<KnowledgeGraphResult> {
+    const settings = { ...DEFAULT_RETRIEVAL_OPTIONS, ...options };
+
     try {
+      await this.ensureInitialized();
+      const retrievalKey = `${this.indexVersion}|${JSON.stringify(settings)}|${normalizeQuery(query)}`;
+      const cachedResult = await this.retrievalCache?.get(retrievalKey);
+      if (cachedResult) {
+        return { ...cachedResult, cacheHit: 'retrieval' };
+      }
+
       // Get embeddings for the query
-      const response = await this.openai.embeddings.create({
-        input: query,
-        model: "text-embedding-ada-002"
-      });
-      const queryEmbedding = response.data[0].embedding;
+      const { embedding: queryEmbedding, cached: embeddingCached } = await this.embedQuery(query, signal);
+      this.assertDimension(queryEmbedding.length);
+      const cacheHit: CacheHit = embeddingCached ? 'embedding' : null;
 
-      // Query FAISS index
-      const similarNodes = await this.queryFaissIndex(queryEmbedding);
+      // Fuse vector and lexical matches into seed nodes, then walk the graph out from them
+      const seedNodes = await this.findSeedNodes(query, queryEmbedding, settings);
+      const rankedNodes = this.rankNodes(seedNodes, settings);
 
       // Fetch details and relationships for each node
       const relevantNodes = await Promise.all(
-        similarNodes.map(async ({ name, similarity }) => {
-          const details = await this.fetchNodeDetails(name);
-          const relationships = await this.fetchRelationships(name);
-          return this.formatNodeDetails(name, similarity, details, relationships);
+        rankedNodes.map(async ({ id, ...ranking }) => {
+          const details = await this.fetchNodeDetails(id);
+          const relationships = await this.fetchRelationships(id);
+          return this.formatNodeDetails(id, ranking, details, relationships);
         })
       );
+      const context = this.buildGraphContext(relevantNodes);
+
+      if (!settings.generateResponse) {
+        await this.retrievalCache?.set(retrievalKey, { relevantNodes, context });
+        return { relevantNodes, context, cacheHit };
+      }
 
       // Generate enhanced response using GPT
-      const systemPrompt = `You are a helpful assistant with access to a knowledge graph about educational institutions. 
-        Based on the following relevant nodes from the graph, provide a detailed response to the user's query.
-        
-        Relevant nodes:
-        ${JSON.stringify(relevantNodes, null, 2)}
-        
+      const systemPrompt = `You are a helpful assistant with access to a knowledge graph about educational institutions.
+        ${context}
+
         Provide a clear, concise response that incorporates the available information.`;
 
-      const chatResponse = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: query }
-        ],
-        temperature: 0.7,
-        max_tokens: 500
-      });
+      const chatResponse = await this.completeChat(systemPrompt, query, signal);
 
-      return {
+      const result = {
         relevantNodes,
-        enhancedResponse: chatResponse.choices[0].message.content || 'No response generated'
+        context,
+        enhancedResponse: chatResponse || 'No response generated'
       };
+      await this.retrievalCache?.set(retrievalKey, result);
+      return { ...result, cacheHit };
     } catch (error) {
       console.error('Error in queryKnowledgeGraph:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,241 @@
+import { GraphEdge, GraphNode, GraphPath, KnowledgeGraphFile, NodeRelationship, PathStep } from '../types/knowledgeGraph';
+import { DataDictionary } from './dataDictionary';
+import { fnv1a } from './hash';
+
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+export interface ExpansionOptions {
+  hops: number;
+  edgeTypes?: string[];
+  hopDecay: number;
+}
+
+export interface ExpandedNode {
+  id: string;
+  score: number;
+  hops: number;
+  seedSimilarity: number;
+  via?: GraphPath;
+}
+
+interface ExpansionCandidate {
+  id: string;
+  score: number;
+  hops: number;
+  seedSimilarity: number;
+  seed: string;
+  steps: PathStep[];
+}
+
+export class GraphStore {
+  private nodes: Map<string, GraphNode> = new Map();
+  private outgoing: Map<string, GraphEdge[]> = new Map();
+  private incoming: Map<string, GraphEdge[]> = new Map();
+  private graphVersion: string = '';
+
+  static fromFile(file: KnowledgeGraphFile): GraphStore {
+    if (file.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported knowledge graph schema version ${file.schemaVersion} (expected ${SUPPORTED_SCHEMA_VERSION})`
+      );
+    }
+
+    const store = new GraphStore();
+    store.graphVersion = file.version;
+
+    file.nodes.forEach(node => {
+      store.nodes.set(node.id, node);
+      store.outgoing.set(node.id, []);
+      store.incoming.set(node.id, []);
+    });
+
+    file.edges.forEach(edge => {
+      if (!store.nodes.has(edge.source) || !store.nodes.has(edge.target)) {
+        throw new Error(`Knowledge graph edge ${edge.source} -> ${edge.target} references an unknown node`);
+      }
+      store.outgoing.get(edge.source)!.push(edge);
+      store.incoming.get(edge.target)!.push(edge);
+    });
+
+    return store;
+  }
+
+  static async load(url: string = '/data/knowledge_graph.json'): Promise<GraphStore> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load knowledge graph: ${response.statusText}`);
+    }
+    return GraphStore.fromFile(await response.json());
+  }
+
+  get version(): string {
+    return this.graphVersion;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  getNodes(): GraphNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getNode(id: string): GraphNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  getLabel(id: string): string {
+    const node = this.nodes.get(id);
+    if (!node) return id;
+    return node.label || node.name.replace(/_/g, ' ');
+  }
+
+  /** What a node is embedded as: its label and name, then its description when it has one */
+  getEmbeddingText(id: string): string {
+    const node = this.nodes.get(id);
+    if (!node) return id;
+    const text = `${this.getLabel(id)} (${node.name})`;
+    return node.description ? `${text}: ${node.description}` : text;
+  }
+
+  /** Changes whenever any node's embedding text does, so a stale vector index can be told apart */
+  getEmbeddingFingerprint(): string {
+    const texts = Array.from(this.nodes.keys()).sort().map(id => `${id}\t${this.getEmbeddingText(id)}`);
+    return fnv1a(texts.join('\n')).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Gives variable nodes the dictionary's label and description wherever the
+   * graph file leaves them out, and returns the variables it has no entry for.
+   */
+  annotate(dictionary: DataDictionary): string[] {
+    const missing: string[] = [];
+    this.nodes.forEach((node, id) => {
+      if (node.kind !== 'variable') return;
+      const entry = dictionary.getEntry(node.name);
+      if (!entry) {
+        missing.push(node.name);
+        return;
+      }
+      this.nodes.set(id, {
+        ...node,
+        label: node.label || entry.label,
+        description: node.description || entry.description
+      });
+    });
+    return missing;
+  }
+
+  getOutgoing(id: string): GraphEdge[] {
+    return this.outgoing.get(id) || [];
+  }
+
+  getIncoming(id: string): GraphEdge[] {
+    return this.incoming.get(id) || [];
+  }
+
+  getRelationships(id: string): NodeRelationship[] {
+    const toRelationship = (edge: GraphEdge, direction: 'out' | 'in'): NodeRelationship => {
+      const otherId = direction === 'out' ? edge.target : edge.source;
+      const other = this.nodes.get(otherId)!;
+      return {
+        type: edge.type,
+        direction,
+        target: other.id,
+        targetLabel: this.getLabel(other.id),
+        targetKind: other.kind
+      };
+    };
+
+    return [
+      ...this.getOutgoing(id).map(edge => toRelationship(edge, 'out')),
+      ...this.getIncoming(id).map(edge => toRelationship(edge, 'in'))
+    ];
+  }
+
+  /**
+   * Walks up to `hops` edges out from the seed nodes (in either direction) and
+   * scores every node reached. A step multiplies the running score by the edge
+   * weight and `hopDecay`, divided by log2(1 + n) where n is how many edges of
+   * that type and direction leave the node, so fanning out of a hub (every
+   * variable EXISTS_IN the directory endpoint) costs more than following a
+   * single link. Each node keeps its best-scoring path.
+   */
+  expandNeighborhood(
+    seeds: Array<{ id: string; similarity: number }>,
+    options: ExpansionOptions
+  ): ExpandedNode[] {
+    const allowed = options.edgeTypes ? new Set(options.edgeTypes) : null;
+    const best: Map<string, ExpansionCandidate> = new Map();
+
+    let frontier: ExpansionCandidate[] = seeds
+      .filter(seed => this.nodes.has(seed.id))
+      .map(seed => {
+        const entry: ExpansionCandidate = { id: seed.id, score: seed.similarity, hops: 0, seedSimilarity: seed.similarity, seed: seed.id, steps: [] };
+        const current = best.get(seed.id);
+        if (!current || current.score < entry.score) {
+          best.set(seed.id, entry);
+        }
+        return entry;
+      });
+
+    for (let hop = 1; hop <= options.hops && frontier.length > 0; hop++) {
+      const next: ExpansionCandidate[] = [];
+
+      frontier.forEach(entry => {
+        const neighbors: Array<{ edge: GraphEdge; direction: 'out' | 'in'; other: string }> = [
+          ...this.getOutgoing(entry.id).map(edge => ({ edge, direction: 'out' as const, other: edge.target })),
+          ...this.getIncoming(entry.id).map(edge => ({ edge, direction: 'in' as const, other: edge.source }))
+        ];
+        const fanOut: Map<string, number> = new Map();
+        neighbors.forEach(({ edge, direction }) => {
+          const key = `${direction}:${edge.type}`;
+          fanOut.set(key, (fanOut.get(key) || 0) + 1);
+        });
+
+        neighbors.forEach(({ edge, direction, other }) => {
+          if (allowed && !allowed.has(edge.type)) return;
+
+          const hubPenalty = Math.log2(1 + fanOut.get(`${direction}:${edge.type}`)!);
+          const score = (entry.score * edge.weight * options.hopDecay) / hubPenalty;
+          const current = best.get(other);
+          if (current && current.score >= score) return;
+
+          const candidate: ExpansionCandidate = {
+            id: other,
+            score,
+            hops: hop,
+            seedSimilarity: entry.seedSimilarity,
+            seed: entry.seed,
+            steps: [...entry.steps, { from: entry.id, to: other, type: edge.type, direction }]
+          };
+          best.set(other, candidate);
+          next.push(candidate);
+        });
+      });
+
+      frontier = next;
+    }
+
+    return Array.from(best.values())
+      .map(({ id, score, hops, seedSimilarity, seed, steps }) => ({
+        id,
+        score,
+        hops,
+        seedSimilarity,
+        via: steps.length > 0
+          ? { seed, steps, description: this.describePath(seed, steps) }
+          : undefined
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  describePath(seed: string, steps: PathStep[]): string {
+    return steps.reduce(
+      (text, step) => step.direction === 'out'
+        ? `${text} -[${step.type}]-> ${this.getLabel(step.to)}`
+        : `${text} <-[${step.type}]- ${this.getLabel(step.to)}`,
+      this.getLabel(seed)
+    );
+  }
+}
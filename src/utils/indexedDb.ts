@@ -0,0 +1,56 @@
+const DB_NAME = 'urban-education-explorer';
+const DB_VERSION = 3;
+
+export const STORE_NAMES = {
+  conversations: 'conversations',
+  embeddingCache: 'embeddingCache',
+  retrievalCache: 'retrievalCache',
+  filterPresets: 'filterPresets'
+} as const;
+
+export type StoreName = typeof STORE_NAMES[keyof typeof STORE_NAMES];
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+/** Opens the app's database once, creating any object store it is missing */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const names = request.result.objectStoreNames;
+      if (!names.contains(STORE_NAMES.conversations)) {
+        request.result.createObjectStore(STORE_NAMES.conversations, { keyPath: 'id' });
+      }
+      if (!names.contains(STORE_NAMES.embeddingCache)) {
+        request.result.createObjectStore(STORE_NAMES.embeddingCache, { keyPath: 'key' });
+      }
+      if (!names.contains(STORE_NAMES.retrievalCache)) {
+        request.result.createObjectStore(STORE_NAMES.retrievalCache, { keyPath: 'key' });
+      }
+      if (!names.contains(STORE_NAMES.filterPresets)) {
+        request.result.createObjectStore(STORE_NAMES.filterPresets, { keyPath: 'name' });
+      }
+    };
+    database = promisify(request).catch(error => {
+      // Let a later call try again
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+export async function objectStore(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
@@ -0,0 +1,81 @@
+import { Institution, InstitutionHistory, InstitutionSnapshotManifest, TrendMetric } from '../types/institution';
+
+export const SNAPSHOT_MANIFEST_URL = '/data/institution_snapshots.json';
+
+export interface TrendMetricInfo {
+  id: TrendMetric;
+  label: string;
+  format: 'percent' | 'number' | 'currency';
+}
+
+export const TREND_METRICS: TrendMetricInfo[] = [
+  { id: 'admit_rate', label: 'Admission Rate', format: 'percent' },
+  { id: 'yield_rate', label: 'Yield Rate', format: 'percent' },
+  { id: 'number_enrolled_total', label: 'Enrollment', format: 'number' },
+  { id: 'sum_average_amount', label: 'Average aid per student', format: 'currency' }
+];
+
+export interface YearOverYear {
+  value: number | null;
+  previousYear: number | null;
+  /** Absolute change from previousYear; rates change in fractions, not percent */
+  delta: number | null;
+}
+
+const metricValue = (inst: Institution, metric: TrendMetric): number | null => {
+  const value = inst[metric];
+  return value === null || isNaN(value) ? null : value;
+};
+
+/** Loads every snapshot the manifest lists into one list of raw rows */
+export async function loadInstitutionSnapshots(manifestUrl = SNAPSHOT_MANIFEST_URL): Promise<Institution[]> {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load institution snapshots: ${response.statusText}`);
+  }
+  const manifest: InstitutionSnapshotManifest = await response.json();
+  if (!Array.isArray(manifest.snapshots) || manifest.snapshots.length === 0) {
+    throw new Error('Institution snapshot manifest lists no snapshots');
+  }
+
+  const snapshots = await Promise.all(manifest.snapshots.map(async ({ year, url }) => {
+    const snapshotResponse = await fetch(url);
+    if (!snapshotResponse.ok) {
+      throw new Error(`Failed to load ${year} institutions: ${snapshotResponse.statusText}`);
+    }
+    const rows: Institution[] = await snapshotResponse.json();
+    return rows.map(row => (row && !Number.isFinite(row.year) ? { ...row, year } : row));
+  }));
+  return snapshots.flat();
+}
+
+/** Years present in the data, newest first */
+export const availableYears = (institutions: Institution[]): number[] =>
+  Array.from(new Set(institutions.map(inst => inst.year))).sort((a, b) => b - a);
+
+export const groupByInstitution = (institutions: Institution[]): InstitutionHistory => {
+  const history: InstitutionHistory = new Map();
+  institutions.forEach(inst => {
+    if (!history.has(inst.unitid)) history.set(inst.unitid, []);
+    history.get(inst.unitid)!.push(inst);
+  });
+  history.forEach(rows => rows.sort((a, b) => a.year - b.year));
+  return history;
+};
+
+/** One value per year of the history, null where the metric is missing */
+export const trendSeries = (history: Institution[], metric: TrendMetric): Array<{ year: number; value: number | null }> =>
+  history.map(inst => ({ year: inst.year, value: metricValue(inst, metric) }));
+
+/** Change since the closest earlier year that has a value for the metric */
+export const yearOverYear = (history: Institution[], year: number, metric: TrendMetric): YearOverYear => {
+  const current = history.find(inst => inst.year === year);
+  const value = current ? metricValue(current, metric) : null;
+  const previous = [...history]
+    .reverse()
+    .find(inst => inst.year < year && metricValue(inst, metric) !== null);
+  if (value === null || !previous) {
+    return { value, previousYear: previous?.year ?? null, delta: null };
+  }
+  return { value, previousYear: previous.year, delta: value - metricValue(previous, metric)! };
+};
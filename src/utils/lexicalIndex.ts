@@ -0,0 +1,111 @@
+export interface LexicalDocument {
+  id: string;
+  /** Verbatim identifier, e.g. a variable name, that can count as an exact match (see exactMatches) */
+  identifier?: string;
+  /** Identifier-like text is weighted above free text */
+  name: string;
+  text: string[];
+}
+
+export interface LexicalSearchResult {
+  id: string;
+  score: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const NAME_WEIGHT = 2;
+
+/** Lowercases and splits on anything but letters and digits, underscores included */
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Whole identifiers in the query, with underscores kept together
+const identifierTokens = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9_]+/).filter(Boolean);
+
+// Identifiers like "cc_basic_2021" read as code; "year" or "city" are ordinary words too
+const isCodeLike = (identifier: string) => /[_\d]/.test(identifier);
+
+// Text in `backticks` or quotes; single quotes only when not an apostrophe, as in "what's"
+const VERBATIM = /`([^`]+)`|["“]([^"”]+)["”]|(?<![a-z0-9])'([^']+)'(?![a-z0-9])/gi;
+const verbatimText = (query: string): string =>
+  Array.from(query.matchAll(VERBATIM), match => match[1] ?? match[2] ?? match[3]).join(' ');
+
+/**
+ * BM25 index over node names and text. Names are tokenized on underscores, so
+ * "hhinc_home_zip_med" is found by "home zip" as well as by its full spelling.
+ */
+export class LexicalIndex {
+  private termFrequencies: Map<string, number>[] = [];
+  private documentLengths: number[] = [];
+  private documentFrequency: Map<string, number> = new Map();
+  private identifiers: Map<string, string[]> = new Map();
+  private averageLength: number = 0;
+
+  constructor(private readonly documents: LexicalDocument[]) {
+    documents.forEach(document => {
+      const frequencies = new Map<string, number>();
+      const add = (token: string, weight: number) =>
+        frequencies.set(token, (frequencies.get(token) || 0) + weight);
+
+      tokenize(document.name).forEach(token => add(token, NAME_WEIGHT));
+      document.text.forEach(text => tokenize(text).forEach(token => add(token, 1)));
+
+      this.termFrequencies.push(frequencies);
+      this.documentLengths.push(Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0));
+      frequencies.forEach((_, token) =>
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1)
+      );
+
+      if (document.identifier) {
+        const key = document.identifier.toLowerCase();
+        this.identifiers.set(key, [...(this.identifiers.get(key) || []), document.id]);
+      }
+    });
+
+    this.averageLength = documents.length > 0
+      ? this.documentLengths.reduce((sum, length) => sum + length, 0) / documents.length
+      : 0;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, k: number): LexicalSearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const count = this.documents.length;
+
+    return this.documents
+      .map((document, index) => {
+        const frequencies = this.termFrequencies[index];
+        const lengthNorm = 1 - B + B * (this.documentLengths[index] / (this.averageLength || 1));
+        const score = terms.reduce((sum, term) => {
+          const tf = frequencies.get(term);
+          if (!tf) return sum;
+          const df = this.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+          return sum + idf * (tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+        }, 0);
+        return { id: document.id, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  /**
+   * Documents whose identifier appears in the query, in query order. A plain
+   * word identifier only counts when the user quotes it, e.g. `year`; otherwise
+   * "what year…" would match it.
+   */
+  exactMatches(query: string): string[] {
+    const verbatim = new Set(identifierTokens(verbatimText(query)));
+    const matches = identifierTokens(query)
+      .filter(token => isCodeLike(token) || verbatim.has(token))
+      .flatMap(token => this.identifiers.get(token) || []);
+    return Array.from(new Set(matches));
+  }
+}
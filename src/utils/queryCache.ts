@@ -0,0 +1,122 @@
+import { objectStore, promisify, StoreName } from './indexedDb';
+
+interface CacheEntry<V> {
+  key: string;
+  value: V;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheLimits {
+  /** Entries older than this are treated as missing */
+  ttlMs: number;
+  /** Least recently used entries are evicted past this count */
+  maxEntries: number;
+}
+
+/** Case, spacing and trailing punctuation don't change what a question asks */
+export const normalizeQuery = (query: string): string =>
+  query.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '').trim();
+
+/**
+ * In-memory LRU cache with a TTL, mirrored to an IndexedDB object store when
+ * one is named and available. Persistence is best effort: without IndexedDB
+ * (or when it fails) the cache keeps working for the current session.
+ */
+export class QueryCache<V> {
+  // Insertion order doubles as recency order: oldest first
+  private entries: Map<string, CacheEntry<V>> = new Map();
+  private loading: Promise<void> | null = null;
+  private persistent: boolean;
+
+  constructor(private readonly limits: CacheLimits, private readonly storeName?: StoreName) {
+    this.persistent = Boolean(storeName) && typeof indexedDB !== 'undefined';
+  }
+
+  private async loadPersisted() {
+    try {
+      const store = await objectStore(this.storeName!, 'readonly');
+      const entries = await promisify<CacheEntry<V>[]>(store.getAll());
+      entries
+        .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+        .forEach(entry => this.entries.set(entry.key, entry));
+      this.evict();
+    } catch (error) {
+      console.warn(`Query cache "${this.storeName}" is not persisted:`, error);
+      this.persistent = false;
+    }
+  }
+
+  async ensureInitialized() {
+    if (!this.persistent) return;
+    if (!this.loading) {
+      this.loading = this.loadPersisted();
+    }
+    await this.loading;
+  }
+
+  private isExpired(entry: CacheEntry<V>) {
+    return Date.now() - entry.createdAt > this.limits.ttlMs;
+  }
+
+  private persist(operation: (store: IDBObjectStore) => IDBRequest) {
+    if (!this.persistent) return;
+    objectStore(this.storeName!, 'readwrite')
+      .then(store => promisify(operation(store)))
+      .catch(error => console.warn(`Failed to update query cache "${this.storeName}":`, error));
+  }
+
+  async get(key: string): Promise<V | null> {
+    await this.ensureInitialized();
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (this.isExpired(entry)) {
+      this.delete(key);
+      return null;
+    }
+
+    const touched = { ...entry, lastUsedAt: Date.now() };
+    this.entries.delete(key);
+    this.entries.set(key, touched);
+    this.persist(store => store.put(touched));
+    return entry.value;
+  }
+
+  async set(key: string, value: V) {
+    await this.ensureInitialized();
+    const now = Date.now();
+    const entry = { key, value, createdAt: now, lastUsedAt: now };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.persist(store => store.put(entry));
+    this.evict();
+  }
+
+  private delete(key: string) {
+    this.entries.delete(key);
+    this.persist(store => store.delete(key));
+  }
+
+  private evict() {
+    Array.from(this.entries.values())
+      .filter(entry => this.isExpired(entry))
+      .forEach(entry => this.delete(entry.key));
+
+    const overflow = this.entries.size - this.limits.maxEntries;
+    if (overflow <= 0) return;
+    Array.from(this.entries.keys())
+      .slice(0, overflow)
+      .forEach(key => this.delete(key));
+  }
+
+  async clear() {
+    await this.ensureInitialized();
+    this.entries.clear();
+    this.persist(store => store.clear());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
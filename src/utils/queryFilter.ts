@@ -0,0 +1,291 @@
+import { Institution } from '../types/institution';
+import { FilterableField, InstitutionFilter, NumericRange } from '../types/institutionFilter';
+import { STATE_NAMES } from './geography';
+
+interface FieldInfo {
+  label: string;
+  format: 'percent' | 'currency' | 'count';
+  synonyms: string[];
+  /** Generic nouns that only name the field next to a number, as in "over 5000 students" */
+  countNouns?: string[];
+}
+
+export const FILTER_FIELDS: { [field in FilterableField]: FieldInfo } = {
+  admit_rate: {
+    label: 'Admission rate',
+    format: 'percent',
+    synonyms: ['admit rate', 'admission rate', 'admissions rate', 'acceptance rate']
+  },
+  yield_rate: {
+    label: 'Yield rate',
+    format: 'percent',
+    synonyms: ['yield rate', 'yield']
+  },
+  sum_average_amount: {
+    label: 'Average aid',
+    format: 'currency',
+    synonyms: ['average aid', 'aid amount', 'financial aid', 'grant aid', 'aid']
+  },
+  percent_of_students: {
+    label: 'Students receiving aid',
+    format: 'percent',
+    synonyms: ['students receiving aid', 'share receiving aid', 'percent receiving aid', 'students with aid']
+  },
+  number_enrolled_total: {
+    label: 'Enrolled students',
+    format: 'count',
+    synonyms: ['enrollment', 'enrolled students', 'student body'],
+    countNouns: ['students']
+  },
+  number_applied: {
+    label: 'Applicants',
+    format: 'count',
+    synonyms: ['applicants', 'applications']
+  }
+};
+
+// Cut-offs match the "Selective (<= 30%)" option in SearchFilterPanel
+const SELECTIVITY: Array<{ pattern: RegExp; range: NumericRange }> = [
+  { pattern: /\b(?:highly|very|most|extremely) selective\b|\belite\b/, range: { max: 0.15 } },
+  { pattern: /\b(?:less|non|not|least)[\s-]selective\b|\bopen[\s-]admissions?\b|\beasy to get into\b/, range: { min: 0.7 } },
+  { pattern: /\bselective\b/, range: { max: 0.3 } }
+];
+
+const HIGH_WORDS = ['high', 'higher', 'large', 'larger', 'big', 'bigger', 'generous', 'lots of', 'many'];
+const LOW_WORDS = ['low', 'lower', 'small', 'smaller', 'few', 'little', 'limited'];
+// "small colleges" is about enrollment; "small" before anything else isn't
+const LARGE_WORDS = ['large', 'larger', 'big', 'bigger'];
+const SMALL_WORDS = ['small', 'smaller'];
+const INSTITUTION_NOUNS = ['schools', 'school', 'colleges', 'college', 'universities', 'university', 'institutions'];
+// Set phrases whose qualifier says nothing about a field
+const IDIOMS = /\bhigh[\s-]schools?\b|\blow[\s-]income\b|\bhow (?:many|much)\b/g;
+const ABOVE_WORDS = ['above', 'over', 'more than', 'greater than', 'at least', 'higher than'];
+const BELOW_WORDS = ['below', 'under', 'less than', 'fewer than', 'at most', 'lower than'];
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).map(escape).join('|');
+
+const SYNONYM_FIELDS = new Map<string, FilterableField>(
+  (Object.keys(FILTER_FIELDS) as FilterableField[]).flatMap(field =>
+    [...FILTER_FIELDS[field].synonyms, ...(FILTER_FIELDS[field].countNouns ?? [])]
+      .map(synonym => [synonym, field] as [string, FilterableField])
+  )
+);
+const FIELD = `(${alternation(Array.from(SYNONYM_FIELDS.keys()))})`;
+const NAMED_FIELD = `(${alternation(
+  (Object.keys(FILTER_FIELDS) as FilterableField[]).flatMap(field => FILTER_FIELDS[field].synonyms)
+)})`;
+const COMPARATOR = `(${alternation([...ABOVE_WORDS, ...BELOW_WORDS])})`;
+const NUMBER = '\\$?(\\d[\\d,]*(?:\\.\\d+)?)\\s*(%|percent|k)?';
+
+// "admission rate under 20%", "more than 5000 students", "high aid", "small colleges"
+const FIELD_FIRST = new RegExp(`\\b${FIELD}\\s+(?:(?:of|is|are)\\s+)?${COMPARATOR}\\s+${NUMBER}`, 'g');
+const NUMBER_FIRST = new RegExp(`\\b${COMPARATOR}\\s+${NUMBER}\\s+${FIELD}\\b`, 'g');
+// The qualifier has to sit right before the field: "high aid", not "high school graduates ... aid"
+const QUALITATIVE = new RegExp(`\\b(${alternation([...HIGH_WORDS, ...LOW_WORDS])})\\s+${NAMED_FIELD}\\b`, 'g');
+const SIZE = new RegExp(
+  `\\b(${alternation([...LARGE_WORDS, ...SMALL_WORDS])})\\s+(?:${alternation(INSTITUTION_NOUNS)})\\b`,
+  'g'
+);
+
+const parseNumber = (field: FilterableField, digits: string, unit: string | undefined): number => {
+  let value = Number(digits.replace(/,/g, ''));
+  if (unit === 'k') value *= 1000;
+  // Rates are stored as fractions; "30%" and a bare "30" both mean 0.3
+  if (FILTER_FIELDS[field].format === 'percent' && (unit === '%' || unit === 'percent' || value > 1)) {
+    value /= 100;
+  }
+  return value;
+};
+
+const quantile = (institutions: Institution[], field: FilterableField, q: number): number | null => {
+  // Zeros stand in for missing values after cleaning
+  const values = institutions.map(inst => inst[field]).filter(value => value > 0).sort((a, b) => a - b);
+  if (values.length === 0) return null;
+  const value = values[Math.min(Math.floor(q * values.length), values.length - 1)];
+  return roundForField(field, value);
+};
+
+const roundForField = (field: FilterableField, value: number): number => {
+  switch (FILTER_FIELDS[field].format) {
+    case 'percent': return Math.round(value * 100) / 100;
+    case 'currency': return Math.round(value / 100) * 100;
+    default: return Math.round(value);
+  }
+};
+
+const mergeRange = (filter: InstitutionFilter, field: FilterableField, range: NumericRange) => {
+  filter.ranges[field] = { ...filter.ranges[field], ...range };
+};
+
+// "Washington DC" is the district, not the state
+const DISTRICT = /\bwashington,?\s+d\.?\s?c\b\.?/;
+// An abbreviation is only a state after one of these words or before an institution noun: "in OH", "OH schools"
+const STATE_PREFIXES = ['in', 'from', 'across', 'within', 'outside'];
+// Joins abbreviations into one list, as in "in OH, PA or NY"
+const LIST_WORDS = [',', '&', 'and', 'or'];
+
+const isStateAbbreviation = (token: string | undefined): token is string =>
+  token !== undefined && /^[A-Z]{2}$/.test(token) && STATE_NAMES[token] !== undefined;
+
+/** Abbreviations in a state context; capitalized words like "ID" or "OK" elsewhere are ordinary words */
+const findAbbreviations = (query: string): string[] => {
+  const tokens = query.match(/[A-Za-z]+|[,&]/g) ?? [];
+  const found: string[] = [];
+  let start = 0;
+  while (start < tokens.length) {
+    if (!isStateAbbreviation(tokens[start])) {
+      start++;
+      continue;
+    }
+    const run = [tokens[start]];
+    let end = start + 1;
+    for (;;) {
+      let next = end;
+      while (next < tokens.length && LIST_WORDS.includes(tokens[next].toLowerCase())) next++;
+      if (next === end || !isStateAbbreviation(tokens[next])) break;
+      run.push(tokens[next]);
+      end = next + 1;
+    }
+    const before = (tokens[start - 1] ?? '').toLowerCase();
+    const after = (tokens[end] ?? '').toLowerCase();
+    if (STATE_PREFIXES.includes(before) || INSTITUTION_NOUNS.includes(after)) {
+      found.push(...run);
+    }
+    start = end;
+  }
+  return found;
+};
+
+const findStates = (query: string): string[] => {
+  const found: string[] = [];
+  let remaining = query.toLowerCase();
+  if (DISTRICT.test(remaining)) {
+    found.push('DC');
+    remaining = remaining.replace(DISTRICT, ' ');
+  }
+
+  // Longest names first so "west virginia" isn't also read as "virginia"
+  Object.entries(STATE_NAMES)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .forEach(([abbr, name]) => {
+      const pattern = new RegExp(`\\b${escape(name.toLowerCase())}\\b`);
+      if (pattern.test(remaining)) {
+        found.push(abbr);
+        remaining = remaining.replace(pattern, ' ');
+      }
+    });
+
+  // Abbreviations only count in capitals, so "in", "or" and "me" stay words
+  if (query !== query.toUpperCase()) {
+    findAbbreviations(query).forEach(abbr => {
+      if (!found.includes(abbr)) found.push(abbr);
+    });
+  }
+  return found;
+};
+
+/**
+ * Rule-based translation of a question such as "selective schools in Ohio with
+ * high aid" into a structured filter. Words like "high" and "low" resolve to the
+ * top and bottom quartiles of `institutions`. Returns null when the question
+ * names no criteria.
+ */
+export function translateQuery(query: string, institutions: Institution[]): InstitutionFilter | null {
+  const filter: InstitutionFilter = { ranges: {} };
+  const lower = query.toLowerCase().replace(IDIOMS, ' ');
+
+  const quoted = query.match(/["“]([^"”]+)["”]/);
+  if (quoted) {
+    filter.name = quoted[1].trim();
+  }
+
+  // A quoted name like "Ohio State" shouldn't also filter by state
+  const states = findStates(quoted ? query.replace(quoted[0], ' ') : query);
+  if (states.length > 0) {
+    filter.states = states;
+  }
+
+  const selectivity = SELECTIVITY.find(({ pattern }) => pattern.test(lower));
+  if (selectivity) {
+    mergeRange(filter, 'admit_rate', selectivity.range);
+  }
+
+  for (const [, synonym, comparator, digits, unit] of lower.matchAll(FIELD_FIRST)) {
+    const field = SYNONYM_FIELDS.get(synonym)!;
+    const value = parseNumber(field, digits, unit);
+    mergeRange(filter, field, ABOVE_WORDS.includes(comparator) ? { min: value } : { max: value });
+  }
+
+  for (const [, comparator, digits, unit, synonym] of lower.matchAll(NUMBER_FIRST)) {
+    const field = SYNONYM_FIELDS.get(synonym)!;
+    const value = parseNumber(field, digits, unit);
+    mergeRange(filter, field, ABOVE_WORDS.includes(comparator) ? { min: value } : { max: value });
+  }
+
+  const qualified = [
+    ...Array.from(lower.matchAll(QUALITATIVE), ([, qualifier, synonym]) =>
+      ({ field: SYNONYM_FIELDS.get(synonym)!, high: HIGH_WORDS.includes(qualifier) })),
+    ...Array.from(lower.matchAll(SIZE), ([, qualifier]) =>
+      ({ field: 'number_enrolled_total' as FilterableField, high: LARGE_WORDS.includes(qualifier) }))
+  ];
+  for (const { field, high } of qualified) {
+    // An explicit number for the same field wins over a vague qualifier
+    if (filter.ranges[field]) continue;
+    const cutoff = quantile(institutions, field, high ? 0.75 : 0.25);
+    if (cutoff !== null) {
+      mergeRange(filter, field, high ? { min: cutoff } : { max: cutoff });
+    }
+  }
+
+  return isEmptyFilter(filter) ? null : filter;
+}
+
+export const isEmptyFilter = (filter: InstitutionFilter): boolean =>
+  !filter.name && !filter.states?.length && Object.keys(filter.ranges).length === 0;
+
+export const matchesFilter = (filter: InstitutionFilter) => {
+  const name = filter.name?.toLowerCase();
+  const ranges = Object.entries(filter.ranges) as Array<[FilterableField, NumericRange]>;
+
+  return (inst: Institution): boolean =>
+    (!name || inst.inst_name.toLowerCase().includes(name) || (inst.inst_alias || '').toLowerCase().includes(name)) &&
+    (!filter.states?.length || (inst.state_abbr !== null && filter.states.includes(inst.state_abbr))) &&
+    ranges.every(([field, { min, max }]) => {
+      const value = inst[field];
+      return value !== null && !isNaN(value) &&
+        (min === undefined || value >= min) &&
+        (max === undefined || value <= max);
+    });
+};
+
+const formatValue = (field: FilterableField, value: number): string => {
+  switch (FILTER_FIELDS[field].format) {
+    case 'percent': return `${Math.round(value * 100)}%`;
+    case 'currency': return `$${value.toLocaleString()}`;
+    default: return value.toLocaleString();
+  }
+};
+
+/** One short phrase per criterion, e.g. "Admission rate ≤ 30%" */
+export function describeFilter(filter: InstitutionFilter): string[] {
+  const parts: string[] = [];
+  if (filter.name) {
+    parts.push(`Name contains "${filter.name}"`);
+  }
+  if (filter.states?.length) {
+    parts.push(`State: ${filter.states.join(', ')}`);
+  }
+  (Object.entries(filter.ranges) as Array<[FilterableField, NumericRange]>).forEach(([field, { min, max }]) => {
+    const { label } = FILTER_FIELDS[field];
+    if (min !== undefined && max !== undefined) {
+      parts.push(`${label} ${formatValue(field, min)}–${formatValue(field, max)}`);
+    } else if (min !== undefined) {
+      parts.push(`${label} ≥ ${formatValue(field, min)}`);
+    } else if (max !== undefined) {
+      parts.push(`${label} ≤ ${formatValue(field, max)}`);
+    }
+  });
+  return parts;
+}
@@ -0,0 +1,163 @@
+import { QueryRewrite } from '../types/knowledgeGraph';
+import { STATE_NAMES } from './geography';
+import { postEventStream } from './sse';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Openers that only make sense as a continuation of the previous question
+const FOLLOW_UP_LEAD = /^(?:(?:and|but|so|ok(?:ay)?)\s+)?(?:what|how)\s+about\s+|^(?:and|also|plus)\s+|^(?:same|now)\s+(?:for|with|but)\s+|^(?:for|in)\s+(?=(?:19|20)\d{2}\b)/i;
+// Short questions leaning on these words are missing their subject
+const REFERENCE_WORD = /\b(?:it|its|that|those|these|this|they|them|their|same|instead|version|one|ones)\b/i;
+const MAX_REFERENCING_WORDS = 6;
+// A run of years or places such as "2019 and 2020" or "Ohio, Indiana or Michigan", swapped as a whole
+const LIST_CONNECTOR = '(?:\\s*,\\s*(?:and\\s+|or\\s+)?|\\s+(?:and|or|to|through)\\s+|\\s*[-–]\\s*)';
+const listOf = (item: string) => new RegExp(`\\b(?:${item})(?:${LIST_CONNECTOR}(?:${item}))*\\b`, 'gi');
+const YEAR_LIST = listOf('(?:19|20)\\d{2}');
+// Longest names first, so "West Virginia" isn't read as "Virginia"
+const STATE_LIST = listOf(Object.values(STATE_NAMES).sort((a, b) => b.length - a.length).join('|'));
+// Filler left over once the lead-in and references are gone
+const FILLER = new Set([
+  'the', 'a', 'an', 'for', 'in', 'of', 'with', 'what', 'about', 'how', 'same', 'version', 'one', 'ones',
+  'instead', 'it', 'its', 'that', 'those', 'these', 'this', 'they', 'them', 'their', 'then', 'there', 'please',
+  'and', 'or', 'but', 'also', 'plus'
+]);
+// Asking for one side of a pair after a question about the other swaps it in
+const COUNTERPARTS: Array<[string, string]> = [
+  ['undergraduate', 'graduate'],
+  ['undergrad', 'grad'],
+  ['public', 'private'],
+  ['two-year', 'four-year'],
+  ['latitude', 'longitude'],
+  ['state', 'county']
+];
+
+// Assistant turns are only context for the model; their start says enough
+const MAX_ASSISTANT_CHARS = 300;
+const MAX_QUERY_CHARS = 300;
+
+const REWRITE_PROMPT = [
+  'You rewrite the latest message of a conversation about the Urban Institute Education Data Portal into a',
+  'standalone search query for a knowledge graph of its variables, endpoints and sources. Resolve pronouns and',
+  'follow-ups such as "what about 2019?" from the earlier turns, keep every variable, year and qualifier the',
+  'user still means, and do not answer the question. Reply with the query alone on one line.'
+].join('\n');
+
+const wordPattern = (word: string) => new RegExp(`\\b${word}\\b`, 'gi');
+
+const stripTrailingPunctuation = (text: string) => text.trim().replace(/[\s?!.]+$/, '');
+
+/**
+ * Moves the follow-up's lists matching `pattern` into the previous question in
+ * place of its first such list, dropping any others there; without one there,
+ * they are appended after `preposition`.
+ */
+const swapLists = (pattern: RegExp, remainder: string, rewritten: string, preposition: string) => {
+  const lists = remainder.match(pattern);
+  if (!lists) return { remainder, rewritten };
+
+  const replacement = lists.join(' and ');
+  let swapped = false;
+  const result = rewritten.replace(pattern, () => {
+    const text = swapped ? '' : replacement;
+    swapped = true;
+    return text;
+  });
+  return {
+    remainder: remainder.replace(pattern, ' '),
+    rewritten: swapped ? result : `${rewritten} ${preposition} ${replacement}`
+  };
+};
+
+/** Whether a message leans on earlier turns for its subject */
+export function isFollowUp(query: string): boolean {
+  const trimmed = query.trim();
+  if (FOLLOW_UP_LEAD.test(trimmed)) return true;
+  return trimmed.split(/\s+/).length <= MAX_REFERENCING_WORDS && REFERENCE_WORD.test(trimmed);
+}
+
+/**
+ * Deterministic rewrite against the previous standalone question. After a
+ * lead-in like "what about", new years and states replace the old ones, a
+ * named counterpart (graduate for undergraduate) swaps in, and whatever else
+ * the follow-up adds is appended. A question that only refers back ("what does it mean?") keeps
+ * its wording and names what it refers to.
+ */
+export function rewriteWithRules(query: string, previous: string): string {
+  let rewritten = stripTrailingPunctuation(previous);
+  if (!FOLLOW_UP_LEAD.test(query.trim())) {
+    return `${stripTrailingPunctuation(query)}, regarding: ${rewritten}`;
+  }
+  let remainder = stripTrailingPunctuation(query).replace(FOLLOW_UP_LEAD, '');
+
+  ({ remainder, rewritten } = swapLists(YEAR_LIST, remainder, rewritten, 'in'));
+  ({ remainder, rewritten } = swapLists(STATE_LIST, remainder, rewritten, 'in'));
+
+  COUNTERPARTS.forEach(([a, b]) => {
+    [[a, b], [b, a]].forEach(([from, to]) => {
+      if (wordPattern(to).test(remainder) && wordPattern(from).test(rewritten) && !wordPattern(to).test(rewritten)) {
+        rewritten = rewritten.replace(wordPattern(from), to);
+        remainder = remainder.replace(wordPattern(to), ' ');
+      }
+    });
+  });
+
+  const extra = remainder
+    .split(/\s+/)
+    .filter(word => word && !FILLER.has(word.toLowerCase().replace(/[^\w-]/g, '')));
+  return [rewritten, ...extra].join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Turns follow-ups into standalone retrieval queries. The chat function
+ * writes them when a chat endpoint is configured; without one, or when the
+ * call fails, the rule-based rewrite is used. Standalone questions pass
+ * through untouched without a model call.
+ */
+export class QueryRewriter {
+  constructor(private readonly chatEndpoint: string | null = '/api/chat') {}
+
+  async rewrite(query: string, history: ConversationTurn[], signal?: AbortSignal): Promise<QueryRewrite> {
+    const original = query.trim();
+    const previous = [...history].reverse().find(turn => turn.role === 'user');
+    if (!previous || !isFollowUp(original)) {
+      return { original, query: original, method: 'unchanged' };
+    }
+
+    if (this.chatEndpoint) {
+      try {
+        const rewritten = await this.rewriteWithModel(original, history, signal);
+        if (rewritten) {
+          return { original, query: rewritten, method: 'model' };
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Query rewriting failed, falling back to rules:', error);
+      }
+    }
+
+    return { original, query: rewriteWithRules(original, previous.content), method: 'rules' };
+  }
+
+  private async rewriteWithModel(query: string, history: ConversationTurn[], signal?: AbortSignal): Promise<string | null> {
+    const transcript = history
+      .map(({ role, content }) => role === 'user'
+        ? `User: ${content}`
+        : `Assistant: ${content.length > MAX_ASSISTANT_CHARS ? `${content.slice(0, MAX_ASSISTANT_CHARS)}…` : content}`)
+      .join('\n');
+    const message = `Conversation:\n${transcript}\n\nLatest message: ${query}`;
+
+    let text = '';
+    for await (const { event, data } of postEventStream(this.chatEndpoint!, { system: REWRITE_PROMPT, message }, signal)) {
+      if (event === 'delta') {
+        text += (data as { text: string }).text;
+      }
+    }
+
+    // Anything but a single short line means the model answered instead of rewriting
+    const rewritten = text.trim().replace(/^["']|["']$/g, '');
+    return rewritten && !rewritten.includes('\n') && rewritten.length <= MAX_QUERY_CHARS ? rewritten : null;
+  }
+}
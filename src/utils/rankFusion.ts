@@ -0,0 +1,32 @@
+export interface WeightedRanking {
+  /** Best first */
+  ids: string[];
+  weight: number;
+}
+
+export interface FusedResult {
+  id: string;
+  score: number;
+}
+
+/** Constant from the original RRF paper; damps the gap between top ranks */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Weighted reciprocal rank fusion: each ranking adds weight / (k + rank) for
+ * every id it contains, so ids ranked well by several lists rise to the top
+ * without their raw scores needing to be comparable.
+ */
+export function reciprocalRankFusion(rankings: WeightedRanking[], k: number = DEFAULT_RRF_K): FusedResult[] {
+  const scores = new Map<string, number>();
+
+  rankings.forEach(({ ids, weight }) => {
+    if (weight <= 0) return;
+    ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + index + 1));
+    });
+  });
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
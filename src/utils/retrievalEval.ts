@@ -0,0 +1,119 @@
+import { EvaluationReport, GoldenSet, QuestionResult } from '../types/evaluation';
+import { DEFAULT_RETRIEVAL_OPTIONS, GraphRAGClient, RetrievalOptions } from './graphRAG';
+import { GraphStore } from './graphStore';
+import { mean, ndcgAtK, recallAtK, reciprocalRank } from './retrievalMetrics';
+
+const SUPPORTED_GOLDEN_VERSION = 1;
+
+/** Rejects malformed golden sets and expected ids the graph doesn't contain */
+export function validateGoldenSet(goldenSet: GoldenSet, graphStore: GraphStore) {
+  if (goldenSet.version !== SUPPORTED_GOLDEN_VERSION) {
+    throw new Error(`Unsupported golden set version ${goldenSet.version} (expected ${SUPPORTED_GOLDEN_VERSION})`);
+  }
+
+  const seen = new Set<string>();
+  goldenSet.questions.forEach(({ id, question, expected }) => {
+    if (seen.has(id)) {
+      throw new Error(`Golden set question id "${id}" is used more than once`);
+    }
+    seen.add(id);
+    if (!question.trim() || expected.length === 0) {
+      throw new Error(`Golden set question "${id}" needs a question and at least one expected node`);
+    }
+    const unknown = expected.filter(nodeId => !graphStore.getNode(nodeId));
+    if (unknown.length > 0) {
+      throw new Error(`Golden set question "${id}" expects unknown nodes: ${unknown.join(', ')}`);
+    }
+  });
+
+  if (goldenSet.graphVersion !== graphStore.version) {
+    console.warn(
+      `Golden set was written for graph ${goldenSet.graphVersion}, but graph ${graphStore.version} is loaded`
+    );
+  }
+}
+
+interface EvaluationSettings {
+  k: number;
+  embeddingModel: string;
+  graphVersion: string;
+  options?: Partial<RetrievalOptions>;
+}
+
+/**
+ * Runs every golden question through queryKnowledgeGraph and scores the
+ * ranked node ids. Questions run one at a time so embedder rate limits and
+ * error messages stay predictable.
+ */
+export async function evaluateRetrieval(
+  client: GraphRAGClient,
+  goldenSet: GoldenSet,
+  { k, embeddingModel, graphVersion, options = {} }: EvaluationSettings
+): Promise<EvaluationReport> {
+  // Keep enough nodes to fill every k slot; answers need the network, so never generate one
+  const retrievalOptions: RetrievalOptions = {
+    ...DEFAULT_RETRIEVAL_OPTIONS,
+    ...options,
+    maxNodes: Math.max(options.maxNodes ?? 0, k),
+    generateResponse: false
+  };
+  const questions: QuestionResult[] = [];
+
+  for (const { id, question, expected } of goldenSet.questions) {
+    const { relevantNodes } = await client.queryKnowledgeGraph(question, retrievalOptions);
+    const retrieved = relevantNodes.map(node => node.id).slice(0, k);
+    questions.push({
+      id,
+      question,
+      expected,
+      retrieved,
+      recall: recallAtK(retrieved, expected, k),
+      reciprocalRank: reciprocalRank(retrieved, expected),
+      ndcg: ndcgAtK(retrieved, expected, k)
+    });
+  }
+
+  return {
+    graphVersion,
+    embeddingModel,
+    k,
+    options: { ...retrievalOptions },
+    metrics: {
+      recall: mean(questions.map(result => result.recall)),
+      mrr: mean(questions.map(result => result.reciprocalRank)),
+      ndcg: mean(questions.map(result => result.ndcg))
+    },
+    questions
+  };
+}
+
+const formatMetric = (value: number) => value.toFixed(3);
+
+export function formatReportMarkdown(report: EvaluationReport): string {
+  const { k, metrics } = report;
+  const lines = [
+    '# Retrieval evaluation',
+    '',
+    `- Graph version: ${report.graphVersion}`,
+    `- Embedding model: ${report.embeddingModel}`,
+    `- Options: \`${JSON.stringify(report.options)}\``,
+    `- Questions: ${report.questions.length}`,
+    '',
+    `| Metric | Value |`,
+    `| --- | --- |`,
+    `| Recall@${k} | ${formatMetric(metrics.recall)} |`,
+    `| MRR | ${formatMetric(metrics.mrr)} |`,
+    `| nDCG@${k} | ${formatMetric(metrics.ndcg)} |`,
+    '',
+    '## Questions',
+    '',
+    `| ID | Recall@${k} | RR | nDCG@${k} | Missed |`,
+    '| --- | --- | --- | --- | --- |',
+    ...report.questions.map(result => {
+      const missed = result.expected.filter(id => !result.retrieved.includes(id));
+      return `| ${result.id} | ${formatMetric(result.recall)} | ${formatMetric(result.reciprocalRank)} | ` +
+        `${formatMetric(result.ndcg)} | ${missed.map(id => `\`${id}\``).join(', ') || '—'} |`;
+    })
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,32 @@
+// Binary relevance throughout: a retrieved id either is expected or isn't
+
+/** Share of expected ids found in the top k */
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  if (expected.length === 0) return 0;
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter(id => top.has(id)).length / expected.length;
+}
+
+/** 1 / rank of the first expected id, or 0 when none is retrieved */
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const relevant = new Set(expected);
+  const index = retrieved.findIndex(id => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/** Discounted cumulative gain over the top k, normalized by the best possible ordering */
+export function ndcgAtK(retrieved: string[], expected: string[], k: number): number {
+  const relevant = new Set(expected);
+  const dcg = retrieved
+    .slice(0, k)
+    .reduce((sum, id, index) => sum + (relevant.has(id) ? 1 / Math.log2(index + 2) : 0), 0);
+
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(relevant.size, k); index++) {
+    idealDcg += 1 / Math.log2(index + 2);
+  }
+  return idealDcg === 0 ? 0 : dcg / idealDcg;
+}
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
@@ -0,0 +1,75 @@
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+const parseEvent = (block: string): ServerSentEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  if (data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) };
+};
+
+/**
+ * POSTs `body` as JSON and yields the server-sent events of the response.
+ * A non-2xx response is raised with the server's `error` message, and an
+ * `error` event ends the stream the same way. `onResponse` gets the status as
+ * soon as it arrives, so callers can tell a refused request from a failed
+ * stream.
+ */
+export async function* postEventStream(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal,
+  onResponse?: (status: number) => void
+): AsyncGenerator<ServerSentEvent, void, unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal
+  });
+  onResponse?.(response.status);
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value.replace(/\r\n/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (!parsed) continue;
+        if (parsed.event === 'error') {
+          throw new Error((parsed.data as { message?: string }).message || 'Stream failed');
+        }
+        yield parsed;
+        if (parsed.event === 'done') return;
+      }
+    }
+  } finally {
+    // Stops the download when the consumer bails out early
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,203 @@
+import { CarnegieField } from '../types/carnegie';
+import {
+  FilterableField,
+  FilterCondition,
+  FilterTree,
+  InstitutionFilter,
+  NumericRange,
+  PovertyBand,
+  SearchFilters
+} from '../types/institutionFilter';
+import { AppTab, AppUrlState, MapViewport, TableSort } from '../types/urlState';
+import { CARNEGIE_CLASSIFICATIONS } from './carnegie';
+import { MAX_COMPARED } from './comparison';
+import { POVERTY_BANDS, createCondition, createGroup, createTree, isEmptyTree } from './filterBuilder';
+import { STATE_NAMES } from './geography';
+import { FILTER_FIELDS } from './queryFilter';
+
+const TABS: AppTab[] = ['colleges', 'applicants', 'chat'];
+const ADMIT_RATE_FILTERS: Array<SearchFilters['admitRate']> = ['', 'selective', 'other'];
+// About 10 m, finer than anyone pans
+const VIEWPORT_DECIMALS = 4;
+const MAX_ZOOM = 22;
+
+const round = (value: number) => Number(value.toFixed(VIEWPORT_DECIMALS));
+
+/** Viewports are kept at link precision so state and URL compare equal */
+export const roundViewport = ({ lat, lng, zoom }: MapViewport): MapViewport =>
+  ({ lat: round(lat), lng: round(lng), zoom: Math.round(zoom) });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJson = (text: string | null): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const parseInteger = (text: string | null): number | null => {
+  if (text === null || !/^-?\d+$/.test(text)) return null;
+  return Number(text);
+};
+
+const parseList = (text: string | null): string[] => (text ? text.split(',').filter(Boolean) : []);
+
+const parseRange = (value: unknown): NumericRange => {
+  if (!isObject(value)) return {};
+  const range: NumericRange = {};
+  if (typeof value.min === 'number' && isFinite(value.min)) range.min = value.min;
+  if (typeof value.max === 'number' && isFinite(value.max)) range.max = value.max;
+  return range;
+};
+
+const isFilterableField = (value: unknown): value is FilterableField =>
+  typeof value === 'string' && value in FILTER_FIELDS;
+
+const stringsFrom = (value: unknown, allowed: (item: string) => boolean): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && allowed(item)) : [];
+
+/** Rebuilds a condition from a link, with a fresh id; anything malformed is dropped */
+const parseCondition = (value: unknown): FilterCondition | null => {
+  if (!isObject(value)) return null;
+  switch (value.kind) {
+    case 'range': {
+      if (!isFilterableField(value.field)) return null;
+      return { ...createCondition('range', value.field), range: parseRange(value.range) } as FilterCondition;
+    }
+    case 'state':
+      return { ...createCondition('state'), states: stringsFrom(value.states, state => state in STATE_NAMES) } as FilterCondition;
+    case 'carnegie': {
+      const classification = CARNEGIE_CLASSIFICATIONS.find(candidate => candidate.field === value.field);
+      if (!classification) return null;
+      const groupIds = classification.groups.map(group => group.id);
+      return {
+        ...createCondition('carnegie'),
+        field: classification.field as CarnegieField,
+        groups: stringsFrom(value.groups, group => groupIds.includes(group))
+      } as FilterCondition;
+    }
+    case 'poverty': {
+      const bandIds: string[] = POVERTY_BANDS.map(band => band.id);
+      return {
+        ...createCondition('poverty'),
+        bands: stringsFrom(value.bands, band => bandIds.includes(band)) as PovertyBand[]
+      } as FilterCondition;
+    }
+    default:
+      return null;
+  }
+};
+
+const parseCombinator = (value: unknown) => (value === 'or' ? 'or' : 'and');
+
+const parseTree = (value: unknown): FilterTree => {
+  if (!isObject(value) || !Array.isArray(value.groups) || value.groups.length === 0) return createTree();
+  return {
+    combinator: parseCombinator(value.combinator),
+    groups: value.groups.filter(isObject).map(group => ({
+      ...createGroup(parseCombinator(group.combinator)),
+      conditions: Array.isArray(group.conditions)
+        ? group.conditions.map(parseCondition).filter((condition): condition is FilterCondition => condition !== null)
+        : []
+    }))
+  };
+};
+
+// Group and condition ids are React keys only; links regenerate them
+const treeToJson = (tree: FilterTree) => JSON.stringify(tree, (key, value) => (key === 'id' ? undefined : value));
+
+const parseQueryFilter = (value: unknown): InstitutionFilter | null => {
+  if (!isObject(value)) return null;
+  const filter: InstitutionFilter = { ranges: {} };
+  if (typeof value.name === 'string' && value.name) filter.name = value.name;
+  const states = stringsFrom(value.states, state => state in STATE_NAMES);
+  if (states.length > 0) filter.states = states;
+  if (isObject(value.ranges)) {
+    Object.entries(value.ranges).forEach(([field, range]) => {
+      if (isFilterableField(field)) filter.ranges[field] = parseRange(range);
+    });
+  }
+  return filter;
+};
+
+const parseViewport = (text: string | null): MapViewport | null => {
+  const parts = (text ?? '').split(',').map(Number);
+  if (parts.length !== 3 || parts.some(part => !isFinite(part))) return null;
+  const [lat, lng, zoom] = parts;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > MAX_ZOOM) return null;
+  return roundViewport({ lat, lng, zoom });
+};
+
+const parseSort = (text: string | null): TableSort[] =>
+  parseList(text)
+    .map(part => part.match(/^(\w+)\.(asc|desc)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, id, direction]) => ({ id, desc: direction === 'desc' }));
+
+/** Reads a query string; missing or malformed parameters fall back to the default view */
+export function parseUrlState(search: string): AppUrlState {
+  const params = new URLSearchParams(search);
+  const tab = params.get('tab') as AppTab;
+  const admitRate = params.get('admit') as SearchFilters['admitRate'];
+  const page = parseInteger(params.get('page'));
+
+  return {
+    tab: TABS.includes(tab) ? tab : 'colleges',
+    year: parseInteger(params.get('year')),
+    unitid: parseInteger(params.get('school')),
+    compare: Array.from(new Set(parseList(params.get('compare')).map(parseInteger)))
+      .filter((unitid): unitid is number => unitid !== null)
+      .slice(0, MAX_COMPARED),
+    applicantId: params.get('applicant') || null,
+    filters: {
+      search: params.get('q') ?? '',
+      admitRate: ADMIT_RATE_FILTERS.includes(admitRate) ? admitRate : '',
+      categories: parseList(params.get('cat')),
+      sizes: parseList(params.get('size')),
+      advanced: parseTree(parseJson(params.get('adv')))
+    },
+    queryFilter: parseQueryFilter(parseJson(params.get('chat'))),
+    viewport: parseViewport(params.get('map')),
+    sort: parseSort(params.get('sort')),
+    page: page !== null && page > 1 ? page - 1 : 0
+  };
+}
+
+/** Query string for the state, leaving out everything at its default */
+export function serializeUrlState(state: AppUrlState): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.tab !== 'colleges') params.set('tab', state.tab);
+  if (state.year !== null) params.set('year', String(state.year));
+  if (state.unitid !== null) params.set('school', String(state.unitid));
+  if (state.compare.length > 0) params.set('compare', state.compare.join(','));
+  if (state.applicantId !== null) params.set('applicant', state.applicantId);
+  if (filters.search) params.set('q', filters.search);
+  if (filters.admitRate) params.set('admit', filters.admitRate);
+  if (filters.categories.length > 0) params.set('cat', filters.categories.join(','));
+  if (filters.sizes.length > 0) params.set('size', filters.sizes.join(','));
+  if (!isEmptyTree(filters.advanced)) params.set('adv', treeToJson(filters.advanced));
+  if (state.queryFilter) params.set('chat', JSON.stringify(state.queryFilter));
+  if (state.viewport) {
+    const { lat, lng, zoom } = roundViewport(state.viewport);
+    params.set('map', `${lat},${lng},${zoom}`);
+  }
+  if (state.sort.length > 0) params.set('sort', state.sort.map(({ id, desc }) => `${id}.${desc ? 'desc' : 'asc'}`).join(','));
+  if (state.page > 0) params.set('page', String(state.page + 1));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Whether going from one state to the other is a step worth its own history
+ * entry (another tab, year, school or applicant). Filter edits, panning and
+ * paging replace the current entry instead of flooding back/forward.
+ */
+export const isNavigation = (from: AppUrlState, to: AppUrlState): boolean =>
+  from.tab !== to.tab || from.year !== to.year || from.unitid !== to.unitid || from.applicantId !== to.applicantId;
@@ -0,0 +1,216 @@
+export interface VectorSearchResult {
+  name: string;
+  similarity: number;
+}
+
+export type VectorBackend = 'faiss' | 'json' | 'memory';
+
+const FAISS_FLAT_IP = 'IxFI';
+const FAISS_FLAT_L2 = 'IxF2';
+const FAISS_HEADER_BYTES = 37;
+
+// Min-heap on similarity, so the weakest of the current top k sits at the root
+class TopKHeap {
+  private items: VectorSearchResult[] = [];
+
+  constructor(private readonly k: number) {}
+
+  push(item: VectorSearchResult) {
+    if (this.items.length < this.k) {
+      this.items.push(item);
+      this.siftUp(this.items.length - 1);
+    } else if (this.k > 0 && item.similarity > this.items[0].similarity) {
+      this.items[0] = item;
+      this.siftDown(0);
+    }
+  }
+
+  toSortedArray(): VectorSearchResult[] {
+    return [...this.items].sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private siftUp(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].similarity <= this.items[index].similarity) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number) {
+    const length = this.items.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.items[left].similarity < this.items[smallest].similarity) smallest = left;
+      if (right < length && this.items[right].similarity < this.items[smallest].similarity) smallest = right;
+      if (smallest === index) return;
+      [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+      index = smallest;
+    }
+  }
+}
+
+export class VectorStore {
+  private names: string[];
+  private vectors: Float32Array;
+  readonly dimension: number;
+  readonly backend: VectorBackend;
+
+  private constructor(names: string[], vectors: Float32Array, dimension: number, backend: VectorBackend) {
+    this.names = names;
+    this.vectors = vectors;
+    this.dimension = dimension;
+    this.backend = backend;
+    VectorStore.normalizeRows(this.vectors, dimension);
+  }
+
+  /**
+   * Reads a flat FAISS index (IndexFlatIP or IndexFlatL2 written by
+   * faiss.write_index). Flat indexes carry no ids, so row i belongs to names[i].
+   */
+  static fromFaissIndex(buffer: ArrayBuffer, names: string[]): VectorStore {
+    if (buffer.byteLength < FAISS_HEADER_BYTES) {
+      throw new Error('FAISS index is too small to contain a header');
+    }
+
+    const view = new DataView(buffer);
+    const fourcc = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+    if (fourcc !== FAISS_FLAT_IP && fourcc !== FAISS_FLAT_L2) {
+      throw new Error(`Unsupported FAISS index type "${fourcc}" (expected a flat index)`);
+    }
+
+    const dimension = view.getInt32(4, true);
+    const ntotal = Number(view.getBigInt64(8, true));
+    const metricType = view.getInt32(33, true);
+    // Metrics other than inner product and L2 carry an extra float argument
+    let offset = FAISS_HEADER_BYTES + (metricType > 1 ? 4 : 0);
+
+    const floatCount = Number(view.getBigUint64(offset, true));
+    offset += 8;
+
+    if (floatCount !== dimension * ntotal) {
+      throw new Error(`FAISS index declares ${floatCount} floats for ${ntotal} x ${dimension} vectors`);
+    }
+    if (offset + floatCount * 4 > buffer.byteLength) {
+      throw new Error(
+        `FAISS index is truncated: expected ${offset + floatCount * 4} bytes, got ${buffer.byteLength}`
+      );
+    }
+    if (names.length !== ntotal) {
+      throw new Error(`FAISS index holds ${ntotal} vectors but ${names.length} node names were provided`);
+    }
+
+    // The vector data starts at an unaligned offset, so copy it out
+    const vectors = new Float32Array(buffer.slice(offset, offset + floatCount * 4));
+    return new VectorStore(names, vectors, dimension, 'faiss');
+  }
+
+  /** Writes the rows as an IndexFlatIP that fromFaissIndex (and faiss.read_index) can read */
+  toFaissIndex(): ArrayBuffer {
+    const buffer = new ArrayBuffer(FAISS_HEADER_BYTES + 8 + this.vectors.length * 4);
+    const view = new DataView(buffer);
+    new Uint8Array(buffer, 0, 4).set(Array.from(FAISS_FLAT_IP, char => char.charCodeAt(0)));
+    view.setInt32(4, this.dimension, true);
+    view.setBigInt64(8, BigInt(this.names.length), true);
+    // Two unused int64 fields, then is_trained
+    view.setBigInt64(16, BigInt(1 << 20), true);
+    view.setBigInt64(24, BigInt(1 << 20), true);
+    view.setUint8(32, 1);
+    view.setInt32(33, 0, true);
+    view.setBigUint64(FAISS_HEADER_BYTES, BigInt(this.vectors.length), true);
+    // The float data is unaligned, so write it through a byte view
+    const floats = new Uint8Array(this.vectors.buffer, this.vectors.byteOffset, this.vectors.byteLength);
+    new Uint8Array(buffer, FAISS_HEADER_BYTES + 8).set(floats);
+    return buffer;
+  }
+
+  static fromEmbeddings(embeddings: { [key: string]: number[] }, backend: VectorBackend = 'json'): VectorStore {
+    const entries = Object.entries(embeddings);
+    const dimension = entries.length > 0 ? entries[0][1].length : 0;
+    const vectors = new Float32Array(entries.length * dimension);
+
+    entries.forEach(([name, embedding], row) => {
+      if (embedding.length !== dimension) {
+        throw new Error(`Embedding for "${name}" has ${embedding.length} dimensions, expected ${dimension}`);
+      }
+      vectors.set(embedding, row * dimension);
+    });
+
+    return new VectorStore(entries.map(([name]) => name), vectors, dimension, backend);
+  }
+
+  /**
+   * Loads the binary FAISS index and its node names, falling back to the JSON
+   * embeddings when the index is missing or unreadable.
+   */
+  static async load(
+    indexUrl: string = '/data/graph_embeddings.index',
+    namesUrl: string = '/data/node_names.txt',
+    embeddingsUrl: string = '/data/node_embeddings.json'
+  ): Promise<VectorStore> {
+    try {
+      const [indexResponse, namesResponse] = await Promise.all([fetch(indexUrl), fetch(namesUrl)]);
+      if (!indexResponse.ok) {
+        throw new Error(`Failed to load vector index: ${indexResponse.statusText}`);
+      }
+      if (!namesResponse.ok) {
+        throw new Error(`Failed to load node names: ${namesResponse.statusText}`);
+      }
+      const names = (await namesResponse.text()).split('\n').map(name => name.trim()).filter(Boolean);
+      return VectorStore.fromFaissIndex(await indexResponse.arrayBuffer(), names);
+    } catch (error) {
+      console.warn('Falling back to JSON node embeddings:', error);
+    }
+
+    const embeddingsResponse = await fetch(embeddingsUrl);
+    if (!embeddingsResponse.ok) {
+      throw new Error(`Failed to load node embeddings: ${embeddingsResponse.statusText}`);
+    }
+    return VectorStore.fromEmbeddings(await embeddingsResponse.json());
+  }
+
+  get size(): number {
+    return this.names.length;
+  }
+
+  search(query: ArrayLike<number>, k: number): VectorSearchResult[] {
+    if (query.length !== this.dimension) {
+      throw new Error(`Query embedding has ${query.length} dimensions, but the index expects ${this.dimension}`);
+    }
+
+    let norm = 0;
+    for (let i = 0; i < query.length; i++) {
+      norm += query[i] * query[i];
+    }
+    norm = Math.sqrt(norm) || 1;
+
+    const heap = new TopKHeap(k);
+    for (let row = 0; row < this.names.length; row++) {
+      const base = row * this.dimension;
+      let dot = 0;
+      for (let i = 0; i < this.dimension; i++) {
+        dot += this.vectors[base + i] * query[i];
+      }
+      heap.push({ name: this.names[row], similarity: dot / norm });
+    }
+
+    return heap.toSortedArray();
+  }
+
+  private static normalizeRows(vectors: Float32Array, dimension: number) {
+    for (let base = 0; base < vectors.length; base += dimension) {
+      let norm = 0;
+      for (let i = 0; i < dimension; i++) {
+        norm += vectors[base + i] * vectors[base + i];
+      }
+      norm = Math.sqrt(norm);
+      if (norm === 0) continue;
+      for (let i = 0; i < dimension; i++) {
+        vectors[base + i] /= norm;
+      }
+    }
+  }
+}